@@ -50,6 +50,36 @@ export const AWS_ENV_MAPPING: Record<keyof AWSLambdaEnv, string> = {
   handler: '_HANDLER',
 };
 
+/**
+ * Variables set by the Lambda runtime that are not in AWS_ENV_MAPPING.
+ * Strict mode never reports them as unknown.
+ *
+ * @see https://docs.aws.amazon.com/lambda/latest/dg/configuration-envvars.html#configuration-envvars-runtime
+ */
+export const LAMBDA_RUNTIME_ENV_NAMES: readonly string[] = [
+  '_X_AMZN_TRACE_ID',
+  'AWS_DEFAULT_REGION',
+  'AWS_LAMBDA_INITIALIZATION_TYPE',
+  'AWS_LAMBDA_LOG_FORMAT',
+  'AWS_LAMBDA_LOG_LEVEL',
+  'AWS_XRAY_CONTEXT_MISSING',
+  'AWS_XRAY_DAEMON_ADDRESS',
+  '_AWS_XRAY_DAEMON_ADDRESS',
+  '_AWS_XRAY_DAEMON_PORT',
+  'AWS_CONTAINER_CREDENTIALS_FULL_URI',
+  'AWS_CONTAINER_AUTHORIZATION_TOKEN',
+  'AWS_NODEJS_CONNECTION_REUSE_ENABLED',
+  'LAMBDA_RUNTIME_DIR',
+  'LANG',
+  'LD_LIBRARY_PATH',
+  'NODE_PATH',
+  'PATH',
+  'PWD',
+  'SHLVL',
+  'TZ',
+  '_',
+];
+
 /**
  * Retrieves AWS Lambda environment variables from the given environment object.
  * Returns undefined for properties when running outside AWS Lambda.
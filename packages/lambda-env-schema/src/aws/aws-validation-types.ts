@@ -48,6 +48,13 @@ export {
   isValidLambdaFunctionName,
   parseLambdaFunctionArn,
 } from './lambda-validators';
+export {
+  isValidCidr,
+  isValidHostname,
+  isValidIp,
+  isValidPort,
+  parseCidr,
+} from './network-validators';
 export {
   extractRegionFromRDSEndpoint,
   isValidRDSClusterId,
@@ -45,6 +45,7 @@ export type {
 export type {
   BaseParsedValue,
   ParsedArn,
+  ParsedCidr,
   ParsedDynamoDBTableArn,
   ParsedIAMRoleArn,
   ParsedKMSKeyArn,
@@ -100,6 +101,14 @@ export {
   isValidLambdaFunctionName,
   parseLambdaFunctionArn,
 } from './lambda-validators';
+// Network
+export {
+  isValidCidr,
+  isValidHostname,
+  isValidIp,
+  isValidPort,
+  parseCidr,
+} from './network-validators';
 // RDS
 export {
   extractRegionFromRDSEndpoint,
@@ -0,0 +1,287 @@
+/**
+ * Network value validators.
+ *
+ * Validates hostnames, IPv4/IPv6 addresses, CIDR blocks and ports, as used
+ * by VPC-attached functions to reach databases, caches and proxies.
+ */
+
+import type { ParsedCidr } from './parsed-types';
+
+/**
+ * Regular expression pattern for a single hostname label.
+ *
+ * Labels are 1-63 letters, digits and hyphens, and cannot start or end
+ * with a hyphen.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc1123#section-2.1
+ */
+const HOSTNAME_LABEL_PATTERN = /^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?$/;
+
+/**
+ * Validates a hostname.
+ *
+ * Hostnames are up to 253 characters of dot-separated labels
+ * (e.g. "redis.internal", "localhost").
+ *
+ * @param value - The hostname to validate
+ * @returns true if the value is a valid hostname, false otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidHostname('cache.abc123.use1.cache.amazonaws.com'); // true
+ * isValidHostname('localhost');                              // true
+ * isValidHostname('-invalid.example.com');                   // false
+ * isValidHostname('under_score.example.com');                // false
+ * ```
+ */
+export function isValidHostname(value: string): boolean {
+  if (value.length === 0 || value.length > 253) {
+    return false;
+  }
+  return value.split('.').every((label) => HOSTNAME_LABEL_PATTERN.test(label));
+}
+
+/**
+ * Regular expression pattern for an IPv4 octet: 0-255 without leading zeros.
+ */
+const IPV4_OCTET_PATTERN = /^(0|[1-9]\d{0,2})$/;
+
+/**
+ * Parses an IPv4 address into its 4 bytes.
+ */
+function parseIPv4(value: string): number[] | null {
+  const parts = value.split('.');
+  if (parts.length !== 4) {
+    return null;
+  }
+
+  const bytes: number[] = [];
+  for (const part of parts) {
+    if (!IPV4_OCTET_PATTERN.test(part) || Number(part) > 255) {
+      return null;
+    }
+    bytes.push(Number(part));
+  }
+  return bytes;
+}
+
+/**
+ * Regular expression pattern for an IPv6 group: 1-4 hexadecimal digits.
+ */
+const IPV6_GROUP_PATTERN = /^[0-9a-fA-F]{1,4}$/;
+
+/**
+ * Parses an IPv6 address into its 16 bytes.
+ * Supports "::" compression and a trailing embedded IPv4 address.
+ */
+function parseIPv6(value: string): number[] | null {
+  const halves = value.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+
+  const toGroups = (part: string) => (part === '' ? [] : part.split(':'));
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+
+  // An embedded IPv4 address (e.g. "::ffff:10.0.0.1") takes two groups,
+  // and only the final group of the address may hold one
+  const groups = [...head, ...tail];
+  const final = halves.length === 2 ? tail : head;
+  const last = final[final.length - 1];
+  let ipv4Bytes: number[] = [];
+  if (last?.includes('.')) {
+    const parsed = parseIPv4(last);
+    if (!parsed) {
+      return null;
+    }
+    ipv4Bytes = parsed;
+    groups.pop();
+  }
+
+  const groupCount = groups.length + ipv4Bytes.length / 2;
+  if (halves.length === 2 ? groupCount > 7 : groupCount !== 8) {
+    return null;
+  }
+  if (!groups.every((group) => IPV6_GROUP_PATTERN.test(group))) {
+    return null;
+  }
+
+  const hexGroups = [
+    ...head,
+    ...Array<string>(8 - groupCount).fill('0'),
+    ...tail,
+  ].slice(0, 8 - ipv4Bytes.length / 2);
+  const bytes: number[] = [];
+  for (const group of hexGroups) {
+    const n = Number.parseInt(group, 16);
+    bytes.push(n >> 8, n & 0xff);
+  }
+  return [...bytes, ...ipv4Bytes];
+}
+
+/**
+ * Parses an IP address into its bytes, for the given version or either.
+ */
+function parseIp(value: string, version?: 4 | 6): number[] | null {
+  if (version === 4) return parseIPv4(value);
+  if (version === 6) return parseIPv6(value);
+  return parseIPv4(value) ?? parseIPv6(value);
+}
+
+/**
+ * Validates an IP address.
+ *
+ * @param value - The IP address to validate
+ * @param version - Restricts validation to IPv4 or IPv6 (default: either)
+ * @returns true if the value is a valid IP address, false otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidIp('10.0.0.1');        // true
+ * isValidIp('2001:db8::1');     // true
+ * isValidIp('10.0.0.1', 6);     // false
+ * isValidIp('10.0.0.256');      // false
+ * isValidIp('010.0.0.1');       // false (leading zero)
+ * ```
+ */
+export function isValidIp(value: string, version?: 4 | 6): boolean {
+  return parseIp(value, version) !== null;
+}
+
+/**
+ * Formats 16 bytes as an IPv6 address, compressing the longest run of
+ * zero groups as recommended by RFC 5952.
+ */
+function formatIPv6(bytes: readonly number[]): string {
+  const groups: number[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    groups.push((bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  let bestStart = -1;
+  let bestLength = 1;
+  for (let i = 0; i < 8; i++) {
+    let length = 0;
+    while (i + length < 8 && groups[i + length] === 0) length++;
+    if (length > bestLength) {
+      bestStart = i;
+      bestLength = length;
+    }
+  }
+
+  const hex = groups.map((group) => group.toString(16));
+  if (bestStart === -1) {
+    return hex.join(':');
+  }
+  const head = hex.slice(0, bestStart).join(':');
+  const tail = hex.slice(bestStart + bestLength).join(':');
+  return `${head}::${tail}`;
+}
+
+/**
+ * Checks whether the first `prefixLength` bits of two addresses match.
+ */
+function matchesPrefix(
+  a: readonly number[],
+  b: readonly number[],
+  prefixLength: number
+): boolean {
+  for (let bit = 0; bit < prefixLength; bit += 8) {
+    const bits = Math.min(8, prefixLength - bit);
+    const mask = (0xff << (8 - bits)) & 0xff;
+    const i = bit / 8;
+    if ((a[i] & mask) !== (b[i] & mask)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Parses a CIDR block.
+ *
+ * Host bits are cleared, so "10.0.1.5/16" has the network "10.0.0.0".
+ *
+ * @param value - The CIDR block to parse (e.g. "10.0.0.0/16")
+ * @param version - Restricts parsing to IPv4 or IPv6 (default: either)
+ * @returns The parsed CIDR block, or null if the value is invalid
+ *
+ * @example
+ * ```typescript
+ * const cidr = parseCidr('10.0.0.0/16');
+ * // { value: '10.0.0.0/16', network: '10.0.0.0', prefixLength: 16, version: 4, contains: [Function] }
+ * cidr?.contains('10.0.3.7');   // true
+ * cidr?.contains('10.1.0.1');   // false
+ * parseCidr('10.0.0.0/33');     // null
+ * ```
+ */
+export function parseCidr(value: string, version?: 4 | 6): ParsedCidr | null {
+  const slash = value.indexOf('/');
+  const prefix = value.slice(slash + 1);
+  if (slash === -1 || !/^(0|[1-9]\d{0,2})$/.test(prefix)) {
+    return null;
+  }
+
+  const bytes = parseIp(value.slice(0, slash), version);
+  const prefixLength = Number(prefix);
+  if (!bytes || prefixLength > bytes.length * 8) {
+    return null;
+  }
+
+  const networkBytes = bytes.map((byte, i) => {
+    const bits = Math.max(0, Math.min(8, prefixLength - i * 8));
+    return byte & ((0xff << (8 - bits)) & 0xff);
+  });
+  const isIPv4 = bytes.length === 4;
+
+  return {
+    value,
+    network: isIPv4 ? networkBytes.join('.') : formatIPv6(networkBytes),
+    prefixLength,
+    version: isIPv4 ? 4 : 6,
+    contains: (ip: string) => {
+      const address = parseIp(ip, isIPv4 ? 4 : 6);
+      return address !== null && matchesPrefix(address, bytes, prefixLength);
+    },
+  };
+}
+
+/**
+ * Validates a CIDR block.
+ *
+ * @param value - The CIDR block to validate
+ * @param version - Restricts validation to IPv4 or IPv6 (default: either)
+ * @returns true if the value is a valid CIDR block, false otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidCidr('10.0.0.0/16');    // true
+ * isValidCidr('2001:db8::/32');  // true
+ * isValidCidr('10.0.0.0');       // false (no prefix length)
+ * isValidCidr('10.0.0.0/33');    // false
+ * ```
+ */
+export function isValidCidr(value: string, version?: 4 | 6): boolean {
+  return parseCidr(value, version) !== null;
+}
+
+/**
+ * Validates a TCP/UDP port number.
+ *
+ * Ports are whole numbers from 1 to 65535, without leading zeros.
+ *
+ * @param value - The port to validate
+ * @returns true if the value is a valid port, false otherwise
+ *
+ * @example
+ * ```typescript
+ * isValidPort('6379');   // true
+ * isValidPort('0');      // false
+ * isValidPort('65536');  // false
+ * isValidPort('80.5');   // false
+ * ```
+ */
+export function isValidPort(value: string): boolean {
+  return /^[1-9]\d{0,4}$/.test(value) && Number(value) <= 65535;
+}
@@ -172,3 +172,43 @@ export interface ParsedArn extends BaseParsedValue {
   /** Resource identifier */
   resource: string;
 }
+
+/**
+ * Parsed URL value, as read by the WHATWG URL parser.
+ * Format: <protocol>://[<user>[:<password>]@]<host>[:<port>][/<path>][?<query>][#<hash>]
+ */
+export interface ParsedUrl extends BaseParsedValue {
+  /** Normalised URL */
+  href: string;
+  /** Protocol without the trailing colon (e.g. "https") */
+  protocol: string;
+  /** Scheme, host and port (e.g. "https://api.example.com:8443") */
+  origin: string;
+  /** Hostname and port (e.g. "api.example.com:8443") */
+  host: string;
+  /** Hostname without the port (e.g. "api.example.com") */
+  hostname: string;
+  /** Explicit port (undefined when the default port is used) */
+  port: number | undefined;
+  /** Path, starting with "/" */
+  pathname: string;
+  /** Query string including "?" (empty string if none) */
+  search: string;
+  /** Fragment including "#" (empty string if none) */
+  hash: string;
+}
+
+/**
+ * Parsed CIDR block value.
+ * Format: <network>/<prefixLength> (e.g. "10.0.0.0/16", "2001:db8::/32")
+ */
+export interface ParsedCidr extends BaseParsedValue {
+  /** Network address with host bits cleared (e.g. "10.0.0.0") */
+  network: string;
+  /** Number of leading network bits (e.g. 16) */
+  prefixLength: number;
+  /** IP version of the block */
+  version: 4 | 6;
+  /** Checks whether an IP address of the same version is inside the block */
+  contains: (ip: string) => boolean;
+}
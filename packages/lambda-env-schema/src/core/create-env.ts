@@ -3,44 +3,273 @@
  */
 
 import { type AWSLambdaEnv, getAWSLambdaEnv } from '../aws/aws-env';
-import type { ValidationError } from '../share/errors';
-import { EnvironmentValidationError } from '../share/errors';
-import type { EnvSchema, InferEnv, SchemaItem } from '../share/types';
+import type { EnvWarning, ValidationError } from '../share/errors';
 import {
-  coerceArray,
+  EnvironmentValidationError,
+  SchemaConflictError,
+  UnknownEnvKeyError,
+} from '../share/errors';
+import type {
+  ArrayItemSchema,
+  ArrayItemType,
+  ArraySchema,
+  EnvSchema,
+  InferEnv,
+  NamingStrategy,
+  SchemaItem,
+  SchemaKey,
+} from '../share/types';
+import {
+  coerceBigInt,
   coerceBoolean,
+  coerceBytes,
+  coerceCidr,
+  coerceDate,
+  coerceDecimal,
+  coerceDuration,
+  coerceHostname,
+  coerceIp,
   coerceJson,
   coerceNumber,
+  coercePort,
   coerceString,
+  coerceStringArray,
+  coerceUrl,
+  urlCredentials,
 } from './coercion';
+import { applyNamingStrategy } from './naming';
 import {
   applyDefault,
+  applyTransform,
+  checkConditionalRequired,
   checkConstraints,
+  checkCustom,
   checkEnum,
   checkRequired,
+  checkUnknownVariables,
+  findClosestName,
   formatValue,
   isAWSParsedType,
   isAWSValidationOnlyType,
+  isSchemaItem,
+  type StrictScope,
   validateAndParse,
 } from './validation';
 
+/**
+ * A cross-field validation failure returned from `refine`.
+ */
+export interface RefineIssue<K extends string = string> {
+  /**
+   * The schema key(s) the failure is reported against, with nested items
+   * written as dot-separated paths (e.g. `'db.PORT'`)
+   */
+  key: K | readonly K[];
+  /** Human-readable error message */
+  message: string;
+}
+
+/**
+ * A named record of variables for the `sources` option.
+ */
+export interface EnvSource {
+  /** Name reported in `env.$meta.source`, e.g. `'process.env'` */
+  name: string;
+  /**
+   * The variables, or a function returning them.
+   * Functions are called every time the environment is read, including
+   * on `$reload()`.
+   */
+  values:
+    | Record<string, string | undefined>
+    | (() => Record<string, string | undefined>);
+}
+
 /**
  * Options for createEnv function.
  */
-export interface CreateEnvOptions {
+export interface CreateEnvOptions<
+  S extends EnvSchema = EnvSchema,
+  N extends NamingStrategy = NamingStrategy,
+> {
   /**
    * Naming strategy for output keys.
    * - 'preserve': Keep original environment variable names (default)
    * - 'camelCase': Convert SNAKE_CASE to camelCase
+   * - 'PascalCase': Convert SNAKE_CASE to PascalCase
+   * - 'kebab-case': Convert SNAKE_CASE to kebab-case
+   * - `{ stripPrefix, case }`: Remove a prefix, then convert the case
+   * - A custom strategy created with `defineNamingStrategy`
    */
-  namingStrategy?: 'preserve' | 'camelCase';
+  namingStrategy?: N;
   /**
    * Custom environment object to read from.
    * Defaults to process.env.
    */
   env?: Record<string, string | undefined>;
+  /**
+   * Ordered sources to read variables from, instead of `env`.
+   * Adds `env.$meta.source` recording where each value came from.
+   *
+   * @example
+   * ```typescript
+   * createEnv(schema, {
+   *   sources: [
+   *     { name: 'defaults', values: { LOG_LEVEL: 'info' } },
+   *     { name: 'process.env', values: process.env },
+   *   ],
+   * });
+   * ```
+   */
+  sources?: readonly EnvSource[];
+  /**
+   * Which source wins when several set the same variable.
+   * - 'last-wins': Later sources override earlier ones (default)
+   * - 'first-wins': The first source that sets a variable wins
+   */
+  precedence?: 'first-wins' | 'last-wins';
+  /**
+   * Prefix prepended to every schema key to get the environment variable name.
+   * Schema keys stay the output property names.
+   * Ignored for items that set `envName`.
+   *
+   * @example
+   * ```typescript
+   * // Reads ORDERS_TABLE_NAME into env.TABLE_NAME
+   * createEnv({ TABLE_NAME: { type: 'string' } }, { prefix: 'ORDERS_' });
+   * ```
+   */
+  prefix?: string;
+  /**
+   * String placed between a nested group key and its children's keys to
+   * form variable names. Defaults to `'_'`.
+   *
+   * @example
+   * ```typescript
+   * // Reads DB__HOST into env.db.HOST
+   * createEnv({ db: { HOST: { type: 'string' } } }, { joiner: '__' });
+   * ```
+   */
+  joiner?: string;
+  /**
+   * Whether numbers must be plain decimals such as "42" or "-3.5".
+   * Blank values, whitespace, hex, exponents and "Infinity" are rejected
+   * instead of being read with `Number()` (which turns "" into 0).
+   * Defaults to true; set to false to restore `Number()` parsing.
+   */
+  strictNumbers?: boolean;
+  /**
+   * Called for every non-fatal warning, such as a deprecated alias being used.
+   * Defaults to `console.warn` with the warning message.
+   */
+  onWarning?: (warning: EnvWarning) => void;
+  /**
+   * Reports variables present in the environment but absent from the schema.
+   * - `true`: checks variables starting with `prefix` (or all variables without one)
+   * - `{ prefix, allow }`: checks variables starting with the given prefix(es),
+   *   except the allowed names
+   *
+   * AWS-provided variables (e.g. AWS_REGION) are always ignored.
+   */
+  strict?: boolean | StrictScope;
+  /**
+   * When variables are validated.
+   * - 'eager': Validate everything when createEnv is called (default)
+   * - 'lazy': Validate each variable on first read and cache the result.
+   *   Use `env.$validateAll()` to validate everything, including `strict`
+   *   and `refine`. safeCreateEnv always validates eagerly.
+   */
+  mode?: 'eager' | 'lazy';
+  /**
+   * Throws an UnknownEnvKeyError when a property that is not declared in
+   * the schema is read from the result, naming the closest declared key.
+   * The result is always deeply frozen, with or without guard.
+   */
+  guard?: boolean;
+  /**
+   * Adds `$reload()` and `$onChange()` to the result, for re-validating the
+   * environment in long-lived execution environments.
+   * Not supported in lazy mode.
+   */
+  reloadable?: boolean;
+  /**
+   * Cross-field validation run after every variable has validated.
+   * Receives the typed environment and returns the failures, if any.
+   */
+  refine?(
+    env: EnvResult<S, { namingStrategy: N }>
+  ): readonly RefineIssue<SchemaKey<S>>[];
+}
+
+/**
+ * Methods available on the result of createEnv in lazy mode.
+ */
+export interface LazyEnvMethods {
+  /**
+   * Validates every variable, including `strict` and `refine`.
+   *
+   * @throws {EnvironmentValidationError} When validation fails
+   */
+  $validateAll(): void;
+}
+
+/**
+ * Provenance of the values, available as `env.$meta` when `sources` is set.
+ */
+export interface EnvMeta<K extends string = string> {
+  /**
+   * Name of the source each variable was read from, keyed by schema key
+   * (dot-separated paths for items in nested groups). `'default'` when the
+   * schema default was used; absent when the variable is unset.
+   */
+  source: { readonly [P in K]?: string };
+}
+
+/**
+ * A changed top-level property reported by `$reload()`.
+ * Nested groups are reported as a whole.
+ */
+export type EnvChange<E> = {
+  [K in keyof E & string]: {
+    /** The output property that changed */
+    key: K;
+    /** The value before the reload */
+    previous: E[K];
+    /** The value after the reload */
+    current: E[K];
+  };
+}[keyof E & string];
+
+/**
+ * Methods available on the result of createEnv with `reloadable: true`.
+ */
+export interface ReloadableEnvMethods<E> {
+  /**
+   * Re-validates the environment against the current source. The values are
+   * swapped in only when the whole environment is valid.
+   *
+   * @returns The changed properties, if any
+   * @throws {EnvironmentValidationError} When validation fails; the current
+   *   values are kept
+   */
+  $reload(): EnvChange<E>[];
+  /**
+   * Subscribes to changes applied by `$reload()`.
+   *
+   * @returns A function that removes the listener
+   */
+  $onChange(listener: (changes: EnvChange<E>[]) => void): () => void;
 }
 
+/**
+ * Extracts the naming strategy from createEnv options.
+ */
+type StrategyOf<O extends CreateEnvOptions> = [
+  NonNullable<O['namingStrategy']>,
+] extends [never]
+  ? 'preserve'
+  : NonNullable<O['namingStrategy']>;
+
 /**
  * Result type for createEnv function.
  * Includes the validated environment variables and AWS Lambda environment.
@@ -48,14 +277,43 @@ export interface CreateEnvOptions {
 export type EnvResult<
   S extends EnvSchema,
   O extends CreateEnvOptions = object,
-> = InferEnv<
+> = EnvValues<S, O> &
+  (O['mode'] extends 'lazy' ? LazyEnvMethods : unknown) &
+  (O['reloadable'] extends true
+    ? ReloadableEnvMethods<EnvValues<S, O>>
+    : unknown) &
+  (O['sources'] extends readonly EnvSource[]
+    ? { $meta: EnvMeta<SchemaKey<S>> }
+    : unknown);
+
+/**
+ * The validated environment variables and AWS Lambda environment.
+ */
+type EnvValues<S extends EnvSchema, O extends CreateEnvOptions> = InferEnv<
   S,
-  O['namingStrategy'] extends 'camelCase' ? 'camelCase' : 'preserve'
+  StrategyOf<O>
 > & {
   /** AWS Lambda environment variables */
   aws: AWSLambdaEnv;
 };
 
+/**
+ * Result type for safeCreateEnv function.
+ * On success, `data` holds the validated environment.
+ * On failure, `errors` lists every validation failure and `partial` holds
+ * the variables that did validate.
+ */
+export type SafeEnvResult<
+  S extends EnvSchema,
+  O extends CreateEnvOptions = object,
+> =
+  | { success: true; data: EnvResult<S, O> }
+  | {
+      success: false;
+      errors: ValidationError[];
+      partial: Partial<EnvResult<S, O>>;
+    };
+
 /**
  * Masks sensitive values in error messages.
  * Replaces occurrences of the actual value with '***' when secret is true.
@@ -76,6 +334,20 @@ function escapeRegExp(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+/**
+ * Returns the value array items are compared by for `unique`: parsed values
+ * by their raw string, dates by their time, and other values as they are.
+ */
+function itemIdentity(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+  if (typeof value === 'object' && value !== null) {
+    return 'value' in value ? value.value : JSON.stringify(value);
+  }
+  return value;
+}
+
 /**
  * Coerces a string value to the type specified in the schema.
  */
@@ -83,7 +355,8 @@ function coerceValue(
   key: string,
   schema: SchemaItem,
   value: string,
-  isSecret: boolean
+  isSecret: boolean,
+  strictNumbers: boolean
 ):
   | { success: true; value: unknown }
   | { success: false; errors: ValidationError[] } {
@@ -123,7 +396,7 @@ function coerceValue(
     }
 
     case 'number': {
-      const result = coerceNumber(value);
+      const result = coerceNumber(value, strictNumbers);
       if (!result.success) {
         const errorMsg = (result as { success: false; error: string }).error;
         return {
@@ -141,6 +414,44 @@ function coerceValue(
       return { success: true, value: result.value };
     }
 
+    case 'bigint': {
+      const result = coerceBigInt(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'integer',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'decimal': {
+      const result = coerceDecimal(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'decimal number (e.g. 19.99)',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
     case 'boolean': {
       const result = coerceBoolean(value);
       if (!result.success) {
@@ -161,10 +472,13 @@ function coerceValue(
     }
 
     case 'array': {
-      const separator = schema.separator ?? ',';
-      const result = coerceArray(value, schema.itemType, separator);
-      if (!result.success) {
-        const errorMsg = (result as { success: false; error: string }).error;
+      const split = coerceStringArray(value, schema.separator ?? ',', {
+        trim: schema.trim,
+        skipEmpty: schema.skipEmpty,
+        quoted: schema.quoted,
+      });
+      if (!split.success) {
+        const errorMsg = (split as { success: false; error: string }).error;
         return {
           success: false,
           errors: [
@@ -172,12 +486,13 @@ function coerceValue(
               key,
               message: maskErrorMessage(errorMsg, value, isSecret),
               received: formatValue(value, isSecret),
-              expected: `array of ${schema.itemType}`,
+              expected: 'separated list of items',
             },
           ],
         };
       }
-      return { success: true, value: result.value };
+
+      return validateItems(key, schema, split.value, isSecret, strictNumbers);
     }
 
     case 'json': {
@@ -199,6 +514,163 @@ function coerceValue(
       return { success: true, value: result.value };
     }
 
+    case 'duration': {
+      const result = coerceDuration(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'duration (e.g. 500ms, 30s, 5m, 1h, PT1H)',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'url': {
+      const result = coerceUrl(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'URL',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'bytes': {
+      const result = coerceBytes(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'byte size (e.g. 512KiB, 6MB)',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'date': {
+      const result = coerceDate(value, schema.epochUnit);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected:
+                schema.epochUnit === 's'
+                  ? 'ISO-8601 date or epoch seconds'
+                  : 'ISO-8601 date or epoch milliseconds',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'hostname': {
+      const result = coerceHostname(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'hostname',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'ip': {
+      const result = coerceIp(value, schema.version);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: schema.version
+                ? `IPv${schema.version} address`
+                : 'IP address',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'cidr': {
+      const result = coerceCidr(value, schema.version);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'CIDR block (e.g. 10.0.0.0/16)',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
+    case 'port': {
+      const result = coercePort(value);
+      if (!result.success) {
+        const errorMsg = (result as { success: false; error: string }).error;
+        return {
+          success: false,
+          errors: [
+            {
+              key,
+              message: maskErrorMessage(errorMsg, value, isSecret),
+              received: formatValue(value, isSecret),
+              expected: 'port (1-65535)',
+            },
+          ],
+        };
+      }
+      return { success: true, value: result.value };
+    }
+
     default:
       return {
         success: false,
@@ -208,24 +680,268 @@ function coerceValue(
 }
 
 /**
- * Validates a single environment variable against its schema.
+ * Validates every item of an array against the item schema, reporting errors
+ * under the item index (e.g. SUBNET_IDS[2]), and applies `unique`.
+ * String items are parsed like raw values; other items, from a default,
+ * are checked as they are.
  */
-function validateItem(
+function validateItems(
   key: string,
-  schema: SchemaItem,
-  rawValue: string | undefined
+  schema: ArraySchema<ArrayItemType | ArrayItemSchema>,
+  values: readonly unknown[],
+  isSecret: boolean,
+  strictNumbers: boolean
 ):
-  | { success: true; value: unknown }
+  | { success: true; value: unknown[] }
   | { success: false; errors: ValidationError[] } {
-  const isSecret = schema.secret === true;
+  const itemSchema =
+    typeof schema.itemType === 'string'
+      ? ({ type: schema.itemType } as ArrayItemSchema)
+      : schema.itemType;
+  const item = isSecret ? { ...itemSchema, secret: true } : itemSchema;
+
+  const items: unknown[] = [];
   const errors: ValidationError[] = [];
-  const schemaType = schema.type;
+  const seen = new Map<unknown, number>();
+  values.forEach((value, index) => {
+    const itemKey = `${key}[${index}]`;
+    const raw = typeof value === 'string' ? value : undefined;
+    const result =
+      raw !== undefined
+        ? validateItem(itemKey, item, raw, strictNumbers)
+        : validateTypedValue(itemKey, item, value, isSecret, strictNumbers);
+    if (!result.success) {
+      errors.push(
+        ...(result as { success: false; errors: ValidationError[] }).errors
+      );
+      return;
+    }
 
-  // Step 1: Check required
-  const requiredResult = checkRequired(key, schema, rawValue);
-  if (!requiredResult.valid) {
-    return {
-      success: false,
+    if (schema.unique) {
+      const identity = itemIdentity(result.value);
+      const first = seen.get(identity);
+      if (first !== undefined) {
+        if (schema.unique !== 'dedupe') {
+          errors.push(
+            ...maskCredentials(item, raw, [
+              {
+                key: itemKey,
+                message: `Duplicate of item at index ${first}`,
+                received: formatValue(value, isSecret),
+                expected: 'unique items',
+              },
+            ])
+          );
+        }
+        return;
+      }
+      seen.set(identity, index);
+    }
+    items.push(result.value);
+  });
+
+  return errors.length > 0
+    ? { success: false, errors }
+    : { success: true, value: items };
+}
+
+/**
+ * Validates a value that needs no coercion, such as a non-string default.
+ * Array items are validated one by one first.
+ */
+function validateTypedValue(
+  key: string,
+  schema: SchemaItem,
+  value: unknown,
+  isSecret: boolean,
+  strictNumbers: boolean
+):
+  | { success: true; value: unknown }
+  | { success: false; errors: ValidationError[] } {
+  let checked = value;
+  if (schema.type === 'array' && Array.isArray(value)) {
+    const itemsResult = validateItems(
+      key,
+      schema,
+      value,
+      isSecret,
+      strictNumbers
+    );
+    if (!itemsResult.success) {
+      return itemsResult;
+    }
+    checked = itemsResult.value;
+  }
+
+  const errors: ValidationError[] = [];
+  const enumResult = checkEnum(key, schema, checked);
+  if (!enumResult.valid) {
+    errors.push((enumResult as { valid: false; error: ValidationError }).error);
+  }
+
+  const constraintResult = checkConstraints(key, schema, checked);
+  if (!constraintResult.valid) {
+    errors.push(
+      ...(constraintResult as { valid: false; errors: ValidationError[] })
+        .errors
+    );
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return applyHooks(key, schema, checked, isSecret);
+}
+
+/**
+ * Runs the custom validate and transform hooks on a value that passed
+ * the built-in checks. Custom error messages are masked for secrets.
+ */
+function applyHooks(
+  key: string,
+  schema: SchemaItem,
+  value: unknown,
+  isSecret: boolean,
+  rawValue?: string
+):
+  | { success: true; value: unknown }
+  | { success: false; errors: ValidationError[] } {
+  const mask = (error: ValidationError): ValidationError => ({
+    ...error,
+    message: rawValue
+      ? maskErrorMessage(error.message, rawValue, isSecret)
+      : error.message,
+    received: formatValue(rawValue ?? value, isSecret),
+  });
+
+  const customResult = checkCustom(key, schema, value);
+  if (!customResult.valid) {
+    return {
+      success: false,
+      errors: [
+        mask((customResult as { valid: false; error: ValidationError }).error),
+      ],
+    };
+  }
+
+  const transformResult = applyTransform(key, schema, value);
+  if (!transformResult.success) {
+    return {
+      success: false,
+      errors: [
+        mask(
+          (transformResult as { success: false; error: ValidationError }).error
+        ),
+      ],
+    };
+  }
+
+  return { success: true, value: applyOutput(schema, transformResult.value) };
+}
+
+/**
+ * Converts a validated array to a `ReadonlySet` for `output: 'set'`,
+ * unless `transform` builds the output itself.
+ */
+function applyOutput(schema: SchemaItem, value: unknown): unknown {
+  return schema.type === 'array' &&
+    schema.output === 'set' &&
+    schema.transform === undefined
+    ? readonlySet(value as readonly unknown[])
+    : value;
+}
+
+/**
+ * Creates a frozen Set whose mutators throw, as deepFreeze cannot freeze
+ * the contents of a Set.
+ */
+function readonlySet<T>(values: readonly T[]): ReadonlySet<T> {
+  const set = new Set(values);
+  for (const method of ['add', 'delete', 'clear']) {
+    Object.defineProperty(set, method, {
+      value: () => {
+        throw new TypeError(`Cannot ${method} on a read-only set`);
+      },
+    });
+  }
+  return Object.freeze(set);
+}
+
+/**
+ * Validates a single environment variable against its schema.
+ * Credentials embedded in URLs are masked in every error.
+ */
+function validateItem(
+  key: string,
+  schema: SchemaItem,
+  rawValue: string | undefined,
+  strictNumbers: boolean
+):
+  | { success: true; value: unknown }
+  | { success: false; errors: ValidationError[] } {
+  const result = validateItemValue(key, schema, rawValue, strictNumbers);
+  if (result.success) {
+    return result;
+  }
+
+  return {
+    success: false,
+    errors: maskCredentials(
+      schema,
+      rawValue,
+      (result as { success: false; errors: ValidationError[] }).errors
+    ),
+  };
+}
+
+/**
+ * Masks credentials embedded in a URL value in the given errors.
+ */
+function maskCredentials(
+  schema: SchemaItem,
+  rawValue: string | undefined,
+  errors: ValidationError[]
+): ValidationError[] {
+  const credentials =
+    schema.type === 'url' && rawValue !== undefined
+      ? urlCredentials(rawValue)
+      : undefined;
+  if (credentials === undefined) {
+    return errors;
+  }
+
+  // Only the userinfo of the URL is masked, so that short credentials
+  // never mask unrelated text
+  const userinfo = `//${credentials}@`;
+  const mask = (text: string) => text.split(userinfo).join('//***@');
+  return errors.map((error) => ({
+    ...error,
+    message: mask(error.message),
+    received: error.received && mask(error.received),
+  }));
+}
+
+/**
+ * Validates a single environment variable against its schema, without
+ * masking URL credentials.
+ */
+function validateItemValue(
+  key: string,
+  schema: SchemaItem,
+  rawValue: string | undefined,
+  strictNumbers: boolean
+):
+  | { success: true; value: unknown }
+  | { success: false; errors: ValidationError[] } {
+  const isSecret = schema.secret === true;
+  const errors: ValidationError[] = [];
+  const schemaType = schema.type;
+
+  // Step 1: Check required
+  const requiredResult = checkRequired(key, schema, rawValue);
+  if (!requiredResult.valid) {
+    return {
+      success: false,
       errors: [
         (requiredResult as { valid: false; error: ValidationError }).error,
       ],
@@ -238,34 +954,28 @@ function validateItem(
     return { success: true, value: undefined };
   }
 
-  const valueToProcess = defaultResult.value;
+  const valueToProcess = copyDefault(defaultResult.value);
 
   // If the value is already the default (not a string), skip coercion
   // Note: AWS parsed types don't support defaults, so this only applies to primitive types
   if (typeof valueToProcess !== 'string') {
-    const enumResult = checkEnum(key, schema, valueToProcess);
-    if (!enumResult.valid) {
-      errors.push(
-        (enumResult as { valid: false; error: ValidationError }).error
-      );
-    }
-
-    const constraintResult = checkConstraints(key, schema, valueToProcess);
-    if (!constraintResult.valid) {
-      errors.push(
-        ...(constraintResult as { valid: false; errors: ValidationError[] })
-          .errors
-      );
-    }
-
-    if (errors.length > 0) {
-      return { success: false, errors };
-    }
-    return { success: true, value: valueToProcess };
+    return validateTypedValue(
+      key,
+      schema,
+      valueToProcess,
+      isSecret,
+      strictNumbers
+    );
   }
 
   // Step 3: Coerce the string value (includes AWS type validation and parsing)
-  const coercionResult = coerceValue(key, schema, valueToProcess, isSecret);
+  const coercionResult = coerceValue(
+    key,
+    schema,
+    valueToProcess,
+    isSecret,
+    strictNumbers
+  );
   if (!coercionResult.success) {
     return {
       success: false,
@@ -279,7 +989,7 @@ function validateItem(
   // For AWS resource types, skip enum and constraint checks
   // AWS types have their own validation logic and don't support these options
   if (isAWSParsedType(schemaType) || isAWSValidationOnlyType(schemaType)) {
-    return { success: true, value: coercedValue };
+    return applyHooks(key, schema, coercedValue, isSecret, valueToProcess);
   }
 
   // Step 4: Check enum (only for primitive types)
@@ -301,26 +1011,731 @@ function validateItem(
     return { success: false, errors };
   }
 
-  return { success: true, value: coercedValue };
+  return applyHooks(key, schema, coercedValue, isSecret, valueToProcess);
 }
 
 /**
- * Converts a SNAKE_CASE string to camelCase.
- *
- * @param str - The SNAKE_CASE string to convert
- * @returns The camelCase equivalent
- *
- * @example
- * ```typescript
- * toCamelCase('MY_ENV_VAR'); // 'myEnvVar'
- * toCamelCase('API_KEY');    // 'apiKey'
- * toCamelCase('PORT');       // 'port'
- * ```
+ * Copies the arrays and plain objects of a default value, so that freezing
+ * the result never freezes the schema and calls never share a default.
+ */
+function copyDefault<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copyDefault) as T;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (proto !== Object.prototype && proto !== null) {
+    return value;
+  }
+  const copy: Record<string, unknown> = Object.create(proto);
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = copyDefault(item);
+  }
+  return copy as T;
+}
+
+/**
+ * Reads the raw value of a variable, falling back to its deprecated aliases.
+ * Reports a warning for every alias that is set, and an error when the
+ * variable and its aliases are set to different values.
+ */
+function readRawValue(
+  envName: string,
+  schema: SchemaItem,
+  env: Record<string, string | undefined>
+): {
+  value: string | undefined;
+  warnings: EnvWarning[];
+  error?: ValidationError;
+} {
+  const primary = env[envName];
+  if (schema.aliases === undefined || schema.aliases.length === 0) {
+    return { value: primary, warnings: [] };
+  }
+
+  const setNames = primary !== undefined ? [envName] : [];
+  const warnings: EnvWarning[] = [];
+  let value = primary;
+
+  for (const alias of schema.aliases) {
+    const aliasValue = env[alias];
+    if (aliasValue === undefined) continue;
+
+    setNames.push(alias);
+    warnings.push({
+      type: 'deprecated-alias',
+      key: envName,
+      alias,
+      message: `${alias} is deprecated, use ${envName} instead`,
+    });
+
+    if (value === undefined) {
+      value = aliasValue;
+    } else if (aliasValue !== value) {
+      return {
+        value,
+        warnings,
+        error: {
+          key: envName,
+          message: `Conflicting values set for ${setNames.join(', ')}`,
+        },
+      };
+    }
+  }
+
+  return { value, warnings };
+}
+
+/**
+ * Result of validating a single schema item.
+ */
+type ItemResult =
+  | { success: true; value: unknown }
+  | { success: false; errors: ValidationError[] };
+
+/**
+ * A schema item together with the names it is read from and written to.
+ */
+export interface SchemaEntry {
+  /** Schema key, or dot-separated path for items in nested groups */
+  key: string;
+  /** The schema item */
+  item: SchemaItem;
+  /** Environment variable name */
+  envName: string;
+  /** Output property names of the enclosing groups, outermost first */
+  groupPath: readonly string[];
+  /** Output property name within the innermost group */
+  outputKey: string;
+}
+
+/**
+ * Flattens nested groups into a list of schema entries.
+ * Group keys are upper-cased and joined to their children with `joiner`
+ * to form variable names; the naming strategy is applied at every level
+ * of the output path. Keys that map to the same output path (e.g.
+ * `API_KEY` and `API__KEY` in camelCase) throw a SchemaConflictError.
+ */
+export function flattenSchema(
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined
+): SchemaEntry[] {
+  const namingStrategy = options?.namingStrategy ?? 'preserve';
+  const prefix = options?.prefix ?? '';
+  const joiner = options?.joiner ?? '_';
+  const outputKeyOf = (key: string) => applyNamingStrategy(key, namingStrategy);
+  const entries: SchemaEntry[] = [];
+  const owners = new Map<string, string>();
+  const claim = (outputPath: readonly string[], key: string) => {
+    const path = outputPath.join('.');
+    const owner = owners.get(path);
+    if (owner !== undefined) {
+      throw new SchemaConflictError(path, owner, key);
+    }
+    owners.set(path, key);
+  };
+
+  const visit = (
+    group: EnvSchema,
+    keyPath: readonly string[],
+    namePath: readonly string[],
+    groupPath: readonly string[]
+  ) => {
+    for (const [key, value] of Object.entries(group)) {
+      claim([...groupPath, outputKeyOf(key)], [...keyPath, key].join('.'));
+      if (isSchemaItem(value)) {
+        entries.push({
+          key: [...keyPath, key].join('.'),
+          item: value,
+          envName:
+            value.envName ?? `${prefix}${[...namePath, key].join(joiner)}`,
+          groupPath,
+          outputKey: outputKeyOf(key),
+        });
+      } else {
+        visit(
+          value,
+          [...keyPath, key],
+          [...namePath, key.toUpperCase()],
+          [...groupPath, outputKeyOf(key)]
+        );
+      }
+    }
+  };
+
+  visit(schema, [], [], []);
+  return entries;
+}
+
+/**
+ * Returns the object at `path` below `root`, creating missing groups.
+ */
+function groupAt(
+  root: Record<string, unknown>,
+  path: readonly string[]
+): Record<string, unknown> {
+  let group = root;
+  for (const segment of path) {
+    if (group[segment] === undefined) {
+      group[segment] = {};
+    }
+    group = group[segment] as Record<string, unknown>;
+  }
+  return group;
+}
+
+/**
+ * Resolves schema items on demand and caches the results.
+ * Shared by eager validation and lazy mode.
+ */
+interface EnvResolver {
+  /** The environment object being read */
+  env: Record<string, string | undefined>;
+  /** Every schema item, keyed by schema key */
+  entries: ReadonlyMap<string, SchemaEntry>;
+  /** Validates a schema item, including conditional requirements */
+  resolve(key: string): ItemResult;
+  /** Returns the raw value a schema item was read from */
+  rawValueOf(key: string): string | undefined;
+  /** Returns the name of the source a schema item was read from */
+  sourceOf(key: string): string | undefined;
+}
+
+/**
+ * Reports options that cannot be combined.
+ */
+function checkOptions(
+  options: CreateEnvOptions | undefined
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (options?.env && options.sources) {
+    errors.push({
+      key: '$options',
+      message: 'env and sources cannot be combined',
+    });
+  }
+  if (options?.mode === 'lazy' && options.reloadable) {
+    errors.push({
+      key: '$options',
+      message: 'reloadable is not supported in lazy mode',
+    });
+  }
+  return errors;
+}
+
+/**
+ * Reads the environment from `sources`, or from `env`.
+ * Records the source of every variable when reading from `sources`.
  */
-export function toCamelCase(str: string): string {
-  return str
-    .toLowerCase()
-    .replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+function readEnv(options: CreateEnvOptions | undefined): {
+  env: Record<string, string | undefined>;
+  sourceNames: Map<string, string>;
+} {
+  const sourceNames = new Map<string, string>();
+  if (!options?.sources) {
+    return { env: options?.env ?? process.env, sourceNames };
+  }
+  const env: Record<string, string | undefined> = {};
+  const lastWins = options.precedence !== 'first-wins';
+  for (const source of options.sources) {
+    const values =
+      typeof source.values === 'function' ? source.values() : source.values;
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined || (!lastWins && sourceNames.has(name))) {
+        continue;
+      }
+      env[name] = value;
+      sourceNames.set(name, source.name);
+    }
+  }
+
+  return { env, sourceNames };
+}
+
+/**
+ * Creates a resolver that validates each schema item at most once.
+ */
+function createResolver(
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined
+): EnvResolver {
+  const { env, sourceNames } = readEnv(options);
+  const strictNumbers = options?.strictNumbers !== false;
+  const onWarning =
+    options?.onWarning ??
+    ((warning: EnvWarning) => console.warn(warning.message));
+  const entries = new Map(
+    flattenSchema(schema, options).map((entry) => [entry.key, entry])
+  );
+  const baseResults = new Map<
+    string,
+    { result: ItemResult; rawValue: string | undefined }
+  >();
+  const results = new Map<string, ItemResult>();
+
+  // Reads and validates a single item, without conditional requirements
+  const resolveBase = (entry: SchemaEntry) => {
+    const cached = baseResults.get(entry.key);
+    if (cached) return cached;
+
+    const raw = readRawValue(entry.envName, entry.item, env);
+    for (const warning of raw.warnings) {
+      onWarning(warning);
+    }
+
+    const base = {
+      result: raw.error
+        ? { success: false as const, errors: [raw.error] }
+        : validateItem(entry.envName, entry.item, raw.value, strictNumbers),
+      rawValue: raw.value,
+    };
+    baseResults.set(entry.key, base);
+    return base;
+  };
+
+  // Validated values keyed by schema key, resolved on first read
+  const values: Record<string, unknown> = {};
+  for (const entry of entries.values()) {
+    Object.defineProperty(values, entry.key, {
+      enumerable: true,
+      get: () => {
+        const { result } = resolveBase(entry);
+        return result.success ? result.value : undefined;
+      },
+    });
+  }
+
+  const resolve = (key: string): ItemResult => {
+    const cached = results.get(key);
+    if (cached) return cached;
+
+    const entry = entries.get(key) as SchemaEntry;
+    const { result, rawValue } = resolveBase(entry);
+    let finalResult = result;
+
+    if (
+      result.success &&
+      (entry.item.requiredWhen !== undefined ||
+        entry.item.requiredUnless !== undefined)
+    ) {
+      const requiredResult = checkConditionalRequired(
+        entry.envName,
+        entry.item,
+        rawValue,
+        values,
+        env
+      );
+      if (!requiredResult.valid) {
+        finalResult = {
+          success: false,
+          errors: [
+            (requiredResult as { valid: false; error: ValidationError }).error,
+          ],
+        };
+      }
+    }
+
+    results.set(key, finalResult);
+    return finalResult;
+  };
+
+  const rawValueOf = (key: string) =>
+    resolveBase(entries.get(key) as SchemaEntry).rawValue;
+
+  // Mirrors readRawValue: the primary name first, then aliases in order
+  const sourceOf = (key: string) => {
+    const entry = entries.get(key) as SchemaEntry;
+    for (const name of [entry.envName, ...(entry.item.aliases ?? [])]) {
+      if (env[name] !== undefined) {
+        return sourceNames.get(name);
+      }
+    }
+    return applyDefault(entry.item, undefined).hasValue ? 'default' : undefined;
+  };
+
+  return { env, entries, resolve, rawValueOf, sourceOf };
+}
+
+/**
+ * Validates every schema item and collects the results.
+ * Shared by createEnv, safeCreateEnv and `$validateAll` in lazy mode.
+ */
+function validateEnv(
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined,
+  resolver: EnvResolver = createResolver(schema, options)
+): { result: Record<string, unknown>; errors: ValidationError[] } {
+  const { env, entries } = resolver;
+  const errors: ValidationError[] = [];
+  const result: Record<string, unknown> = {};
+
+  // Validate each schema item
+  for (const entry of entries.values()) {
+    const validationResult = resolver.resolve(entry.key);
+
+    if (!validationResult.success) {
+      errors.push(
+        ...(validationResult as { success: false; errors: ValidationError[] })
+          .errors
+      );
+    } else {
+      groupAt(result, entry.groupPath)[entry.outputKey] =
+        validationResult.value;
+    }
+  }
+
+  // Report unknown variables in strict mode
+  if (options?.strict) {
+    const knownNames = new Set<string>();
+    for (const entry of entries.values()) {
+      knownNames.add(entry.envName);
+      for (const alias of entry.item.aliases ?? []) {
+        knownNames.add(alias);
+      }
+    }
+
+    const scope: StrictScope =
+      options.strict === true
+        ? { prefix: options.prefix || undefined }
+        : options.strict;
+    errors.push(...checkUnknownVariables(env, knownNames, scope));
+  }
+
+  // Add AWS Lambda environment variables
+  result.aws = getAWSLambdaEnv(env);
+
+  if (options?.sources) {
+    attachMeta(result, resolver);
+  }
+
+  // Run cross-field rules only once every variable is valid
+  if (errors.length === 0 && options?.refine) {
+    let issues: readonly RefineIssue[];
+    try {
+      issues = options.refine(result as EnvResult<EnvSchema>);
+    } catch (e) {
+      const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+      errors.push({
+        key: '$refine',
+        message: `Refine failed: ${errorMessage}`,
+      });
+      issues = [];
+    }
+    for (const issue of issues) {
+      const keys = typeof issue.key === 'string' ? [issue.key] : issue.key;
+      for (const key of keys) {
+        const entry = entries.get(key);
+        errors.push({ key: entry?.envName ?? key, message: issue.message });
+        if (entry) {
+          delete groupAt(result, entry.groupPath)[entry.outputKey];
+        }
+      }
+    }
+  }
+
+  return { result, errors };
+}
+
+/**
+ * Adds `$meta` with the source of every schema item to the result.
+ */
+function attachMeta(
+  result: Record<string, unknown>,
+  resolver: EnvResolver
+): void {
+  const source: Record<string, string> = {};
+  for (const key of resolver.entries.keys()) {
+    const name = resolver.sourceOf(key);
+    if (name !== undefined) {
+      source[key] = name;
+    }
+  }
+
+  const meta: EnvMeta = { source: Object.freeze(source) };
+  Object.defineProperty(result, '$meta', { value: Object.freeze(meta) });
+}
+
+/**
+ * Freezes plain objects and arrays recursively.
+ * Other objects (e.g. Date, URL, or class instances returned from `transform`)
+ * are left as-is, since freezing them could break their methods.
+ * Accessor properties are not read, so lazy variables stay lazy.
+ */
+function deepFreeze<T>(value: T): T {
+  if (value === null || typeof value !== 'object' || Object.isFrozen(value)) {
+    return value;
+  }
+
+  const proto = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && proto !== Object.prototype && proto !== null) {
+    return value;
+  }
+
+  Object.freeze(value);
+  for (const descriptor of Object.values(
+    Object.getOwnPropertyDescriptors(value)
+  )) {
+    if ('value' in descriptor) {
+      deepFreeze(descriptor.value);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Property names probed by common tooling (promise resolution, JSON.stringify,
+ * util.inspect, test matchers, React and Immutable.js checks) that must not
+ * throw on a guarded environment object. Symbol keys are never guarded.
+ */
+const GUARD_PASSTHROUGH = new Set([
+  'then',
+  'toJSON',
+  'constructor',
+  'toString',
+  'toLocaleString',
+  'valueOf',
+  'inspect',
+  'nodeType',
+  'asymmetricMatch',
+  '$$typeof',
+  '@@__IMMUTABLE_ITERABLE__@@',
+  '@@__IMMUTABLE_RECORD__@@',
+]);
+
+/**
+ * Wraps an object in a Proxy that throws on reads of undeclared properties.
+ */
+function guardObject<T extends Record<string, unknown>>(target: T): T {
+  return new Proxy(target, {
+    get(target, prop, receiver) {
+      if (
+        typeof prop === 'string' &&
+        !(prop in target) &&
+        !GUARD_PASSTHROUGH.has(prop)
+      ) {
+        throw new UnknownEnvKeyError(
+          prop,
+          findClosestName(prop, Object.keys(target))
+        );
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/**
+ * Deeply freezes validated values and, when `guard` is enabled, guards every
+ * nested group against reads of undeclared properties.
+ */
+function freezeValues<T extends Record<string, unknown>>(
+  result: T,
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined
+): T {
+  if (!options?.guard) {
+    return deepFreeze(result);
+  }
+
+  // Groups are swapped for their proxies before freezing, deepest first,
+  // since frozen properties cannot be replaced afterwards
+  const groupPaths = new Map<string, readonly string[]>();
+  for (const entry of flattenSchema(schema, options)) {
+    for (let depth = 1; depth <= entry.groupPath.length; depth++) {
+      const path = entry.groupPath.slice(0, depth);
+      groupPaths.set(path.join('.'), path);
+    }
+  }
+  const deepestFirst = [...groupPaths.values()].sort(
+    (a, b) => b.length - a.length
+  );
+
+  for (const path of deepestFirst) {
+    let parent: Record<string, unknown> | undefined = result;
+    for (const segment of path.slice(0, -1)) {
+      parent = parent?.[segment] as Record<string, unknown> | undefined;
+    }
+    const key = path[path.length - 1];
+    const group = parent?.[key] as Record<string, unknown> | undefined;
+    if (parent && group) {
+      parent[key] = guardObject(group);
+    }
+  }
+
+  const target: Record<string, unknown> = result;
+  if (target.aws) {
+    target.aws = guardObject(target.aws as Record<string, unknown>);
+  }
+
+  return deepFreeze(result);
+}
+
+/**
+ * Freezes the result and, when `guard` is enabled, guards it and every
+ * nested group against reads of undeclared properties.
+ */
+function finalizeResult<T extends Record<string, unknown>>(
+  result: T,
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined
+): T {
+  const frozen = freezeValues(result, schema, options);
+  return options?.guard ? guardObject(frozen) : frozen;
+}
+
+/**
+ * Lists the top-level properties whose values differ between two snapshots.
+ * Schema items are compared by their raw values, so a reload that reads the
+ * same strings reports no changes even when `transform` builds new objects.
+ */
+function diffSnapshots(
+  previous: { result: Record<string, unknown>; resolver: EnvResolver },
+  current: { result: Record<string, unknown>; resolver: EnvResolver }
+): EnvChange<Record<string, unknown>>[] {
+  const changed = new Set<string>();
+
+  for (const entry of current.resolver.entries.values()) {
+    if (
+      previous.resolver.rawValueOf(entry.key) !==
+      current.resolver.rawValueOf(entry.key)
+    ) {
+      changed.add(entry.groupPath[0] ?? entry.outputKey);
+    }
+  }
+
+  const previousAws = previous.result.aws as Record<string, unknown>;
+  const currentAws = current.result.aws as Record<string, unknown>;
+  if (Object.keys(currentAws).some((k) => previousAws[k] !== currentAws[k])) {
+    changed.add('aws');
+  }
+
+  return [...changed].map((key) => ({
+    key,
+    previous: previous.result[key],
+    current: current.result[key],
+  }));
+}
+
+/**
+ * Creates an environment object that reads from a swappable snapshot.
+ * `$reload` validates a fresh snapshot and swaps it in only when valid.
+ */
+function createReloadableEnv(
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined,
+  initial: { result: Record<string, unknown>; resolver: EnvResolver }
+): Record<string, unknown> {
+  let snapshot = {
+    result: freezeValues(initial.result, schema, options),
+    resolver: initial.resolver,
+  };
+  const listeners = new Set<
+    (changes: EnvChange<Record<string, unknown>>[]) => void
+  >();
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(snapshot.result)) {
+    Object.defineProperty(result, key, {
+      enumerable: true,
+      get: () => snapshot.result[key],
+    });
+  }
+
+  if (options?.sources) {
+    Object.defineProperty(result, '$meta', {
+      get: () => snapshot.result.$meta,
+    });
+  }
+
+  Object.defineProperty(result, '$reload', {
+    value: () => {
+      const resolver = createResolver(schema, options);
+      const { result: next, errors } = validateEnv(schema, options, resolver);
+      if (errors.length > 0) {
+        throw new EnvironmentValidationError(errors);
+      }
+
+      const nextSnapshot = {
+        result: freezeValues(next, schema, options),
+        resolver,
+      };
+      const changes = diffSnapshots(snapshot, nextSnapshot);
+      snapshot = nextSnapshot;
+
+      if (changes.length > 0) {
+        for (const listener of [...listeners]) {
+          listener(changes);
+        }
+      }
+      return changes;
+    },
+  });
+
+  Object.defineProperty(result, '$onChange', {
+    value: (
+      listener: (changes: EnvChange<Record<string, unknown>>[]) => void
+    ) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  });
+
+  return Object.freeze(result);
+}
+
+/**
+ * Creates an environment object whose variables are validated on first read.
+ * Each variable is validated at most once; failures throw on every read.
+ * `$validateAll` validates everything, including strict mode and refine.
+ */
+function createLazyEnv(
+  schema: EnvSchema,
+  options: CreateEnvOptions | undefined
+): Record<string, unknown> {
+  const resolver = createResolver(schema, options);
+  const result: Record<string, unknown> = {};
+
+  for (const entry of resolver.entries.values()) {
+    Object.defineProperty(groupAt(result, entry.groupPath), entry.outputKey, {
+      enumerable: true,
+      get: () => {
+        const validationResult = resolver.resolve(entry.key);
+        if (!validationResult.success) {
+          throw new EnvironmentValidationError(
+            (
+              validationResult as {
+                success: false;
+                errors: ValidationError[];
+              }
+            ).errors
+          );
+        }
+        return deepFreeze(validationResult.value);
+      },
+    });
+  }
+
+  result.aws = getAWSLambdaEnv(resolver.env);
+
+  if (options?.sources) {
+    attachMeta(result, resolver);
+  }
+
+  Object.defineProperty(result, '$validateAll', {
+    value: () => {
+      const { errors } = validateEnv(schema, options, resolver);
+      if (errors.length > 0) {
+        throw new EnvironmentValidationError(errors);
+      }
+    },
+  });
+
+  return result;
 }
 
 /**
@@ -361,36 +1776,114 @@ export function toCamelCase(str: string): string {
  */
 export function createEnv<
   S extends EnvSchema,
-  O extends CreateEnvOptions = object,
->(schema: S, options?: O): EnvResult<S, O> {
-  const env = options?.env ?? process.env;
-  const namingStrategy = options?.namingStrategy ?? 'preserve';
-  const errors: ValidationError[] = [];
-  const result: Record<string, unknown> = {};
-
-  // Validate each schema item
-  for (const [key, schemaItem] of Object.entries(schema)) {
-    const rawValue = env[key];
-    const validationResult = validateItem(key, schemaItem, rawValue);
+  const O extends CreateEnvOptions<S, N> = object,
+  N extends NamingStrategy = 'preserve',
+>(schema: S, options?: O & CreateEnvOptions<S, N>): EnvResult<S, O> {
+  const optionErrors = checkOptions(options);
+  if (optionErrors.length > 0) {
+    throw new EnvironmentValidationError(optionErrors);
+  }
 
-    if (!validationResult.success) {
-      errors.push(
-        ...(validationResult as { success: false; errors: ValidationError[] })
-          .errors
-      );
-    } else {
-      const outputKey = namingStrategy === 'camelCase' ? toCamelCase(key) : key;
-      result[outputKey] = validationResult.value;
-    }
+  if (options?.mode === 'lazy') {
+    return finalizeResult(
+      createLazyEnv(schema, options),
+      schema,
+      options
+    ) as EnvResult<S, O>;
   }
 
+  const resolver = createResolver(schema, options);
+  const { result, errors } = validateEnv(schema, options, resolver);
+
   // Throw if there are any errors
   if (errors.length > 0) {
     throw new EnvironmentValidationError(errors);
   }
 
-  // Add AWS Lambda environment variables
-  result.aws = getAWSLambdaEnv(env);
+  if (options?.reloadable) {
+    const env = createReloadableEnv(schema, options, { result, resolver });
+    return (options.guard ? guardObject(env) : env) as EnvResult<S, O>;
+  }
+
+  return finalizeResult(result, schema, options) as EnvResult<S, O>;
+}
+
+/**
+ * Creates a typed environment configuration without throwing.
+ * Accepts the same schema and options as createEnv and shares its type inference.
+ * Conflicting options and schema keys that map to the same output key are
+ * returned as errors too.
+ *
+ * @param schema - The environment variable schema definition
+ * @param options - Optional configuration options
+ * @returns A discriminated result with either the typed environment or the errors
+ *
+ * @example
+ * ```typescript
+ * const result = safeCreateEnv({
+ *   PORT: { type: 'number', default: 3000 },
+ *   API_KEY: { type: 'string', required: true, secret: true },
+ * });
+ *
+ * if (!result.success) {
+ *   // result.errors is ValidationError[]
+ *   // result.partial.PORT is number | undefined
+ *   return { statusCode: 500, body: JSON.stringify(result.errors) };
+ * }
+ *
+ * // result.data.PORT is number
+ * // result.data.API_KEY is string
+ * ```
+ */
+export function safeCreateEnv<
+  S extends EnvSchema,
+  const O extends CreateEnvOptions<S, N> = object,
+  N extends NamingStrategy = 'preserve',
+>(schema: S, options?: O & CreateEnvOptions<S, N>): SafeEnvResult<S, O> {
+  const optionErrors = checkOptions(options);
+  if (optionErrors.length > 0) {
+    return { success: false, errors: optionErrors, partial: {} };
+  }
+
+  let resolver: EnvResolver;
+  try {
+    resolver = createResolver(schema, options);
+  } catch (e) {
+    if (e instanceof SchemaConflictError) {
+      return {
+        success: false,
+        errors: [{ key: e.key, message: e.message }],
+        partial: {},
+      };
+    }
+    throw e;
+  }
+  const { result, errors } = validateEnv(schema, options, resolver);
+
+  // The partial result is not guarded: failed keys are missing from it
+  if (errors.length > 0) {
+    return {
+      success: false,
+      errors,
+      partial: deepFreeze(result) as Partial<EnvResult<S, O>>,
+    };
+  }
+
+  // Everything is already validated, so $validateAll has nothing left to do
+  if (options?.mode === 'lazy') {
+    Object.defineProperty(result, '$validateAll', { value: () => {} });
+  }
+
+  if (options?.reloadable) {
+    const env = createReloadableEnv(schema, options, { result, resolver });
+    return {
+      success: true,
+      data: (options.guard ? guardObject(env) : env) as EnvResult<S, O>,
+    };
+  }
 
-  return result as EnvResult<S, O>;
+  return {
+    success: true,
+    data: finalizeResult(result, schema, options) as EnvResult<S, O>,
+  };
 }
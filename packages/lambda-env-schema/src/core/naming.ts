@@ -0,0 +1,157 @@
+/**
+ * Naming strategies mapping schema keys to output property names.
+ * Each conversion mirrors its type-level counterpart in share/types.ts.
+ */
+
+import type {
+  CustomNamingStrategy,
+  KeyCase,
+  KeyMapper,
+  NamingStrategy,
+} from '../share/types';
+
+/**
+ * Splits a SNAKE_CASE string into its words.
+ * Empty words from leading, trailing or repeated underscores are dropped.
+ *
+ * @param str - The SNAKE_CASE string to split
+ * @returns The words, in order
+ *
+ * @example
+ * ```typescript
+ * splitWords('MY_ENV_VAR'); // ['MY', 'ENV', 'VAR']
+ * splitWords('_API__KEY');  // ['API', 'KEY']
+ * ```
+ */
+export function splitWords(str: string): string[] {
+  return str.split('_').filter((word) => word !== '');
+}
+
+/**
+ * Upper-cases the first character of a word and lower-cases the rest.
+ */
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+/**
+ * Converts a SNAKE_CASE string to camelCase.
+ *
+ * @param str - The SNAKE_CASE string to convert
+ * @returns The camelCase equivalent
+ *
+ * @example
+ * ```typescript
+ * toCamelCase('MY_ENV_VAR'); // 'myEnvVar'
+ * toCamelCase('API_KEY');    // 'apiKey'
+ * toCamelCase('PORT');       // 'port'
+ * ```
+ */
+export function toCamelCase(str: string): string {
+  return splitWords(str)
+    .map((word, i) => (i === 0 ? word.toLowerCase() : capitalize(word)))
+    .join('');
+}
+
+/**
+ * Converts a SNAKE_CASE string to PascalCase.
+ *
+ * @param str - The SNAKE_CASE string to convert
+ * @returns The PascalCase equivalent
+ *
+ * @example
+ * ```typescript
+ * toPascalCase('MY_ENV_VAR'); // 'MyEnvVar'
+ * ```
+ */
+export function toPascalCase(str: string): string {
+  return splitWords(str).map(capitalize).join('');
+}
+
+/**
+ * Converts a SNAKE_CASE string to kebab-case.
+ *
+ * @param str - The SNAKE_CASE string to convert
+ * @returns The kebab-case equivalent
+ *
+ * @example
+ * ```typescript
+ * toKebabCase('MY_ENV_VAR'); // 'my-env-var'
+ * ```
+ */
+export function toKebabCase(str: string): string {
+  return splitWords(str)
+    .map((word) => word.toLowerCase())
+    .join('-');
+}
+
+/**
+ * Applies a key case conversion.
+ */
+function applyKeyCase(key: string, keyCase: KeyCase): string {
+  switch (keyCase) {
+    case 'camelCase':
+      return toCamelCase(key);
+    case 'PascalCase':
+      return toPascalCase(key);
+    case 'kebab-case':
+      return toKebabCase(key);
+    default:
+      return key;
+  }
+}
+
+/**
+ * Maps a schema key to its output property name.
+ *
+ * @param key - The schema key
+ * @param strategy - The naming strategy to apply
+ * @returns The output property name
+ *
+ * @example
+ * ```typescript
+ * applyNamingStrategy('API_KEY', 'kebab-case'); // 'api-key'
+ * applyNamingStrategy('APP_PORT', { stripPrefix: 'APP_', case: 'camelCase' }); // 'port'
+ * ```
+ */
+export function applyNamingStrategy(
+  key: string,
+  strategy: NamingStrategy
+): string {
+  if (typeof strategy === 'string') {
+    return applyKeyCase(key, strategy);
+  }
+
+  if ('stripPrefix' in strategy) {
+    const stripped = key.startsWith(strategy.stripPrefix)
+      ? key.slice(strategy.stripPrefix.length)
+      : key;
+    return applyKeyCase(stripped, strategy.case ?? 'preserve');
+  }
+
+  return strategy.rename(key);
+}
+
+/**
+ * Creates a custom naming strategy from a runtime function and a type-level
+ * mapping. Both must produce the same keys.
+ *
+ * @param rename - Maps a schema key to its output property name
+ * @returns A naming strategy for the `namingStrategy` option
+ *
+ * @example
+ * ```typescript
+ * interface LowerMapper extends KeyMapper {
+ *   output: Lowercase<this['key']>;
+ * }
+ *
+ * const lower = defineNamingStrategy<LowerMapper>((key) => key.toLowerCase());
+ * const env = createEnv(schema, { namingStrategy: lower });
+ * // env.api_key
+ * ```
+ */
+export function defineNamingStrategy<M extends KeyMapper>(
+  rename: (key: string) => string
+): CustomNamingStrategy<M> {
+  return { rename };
+}
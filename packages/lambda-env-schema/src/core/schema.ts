@@ -0,0 +1,270 @@
+/**
+ * Helpers for defining and composing schemas.
+ */
+
+import { SchemaConflictError } from '../share/errors';
+import type { EnvSchema, SchemaItem } from '../share/types';
+import { isSchemaItem } from './validation';
+
+/**
+ * An empty schema, the starting point for merging.
+ */
+type EmptySchema = Record<never, never>;
+
+/**
+ * The item type of an array schema, whether given by name or by item schema.
+ */
+type ItemKind<A> = A extends { itemType: infer I }
+  ? I extends { type: infer T }
+    ? T
+    : I
+  : never;
+
+/**
+ * Checks whether two schema items have the same type (and item type, for
+ * arrays), matching `describeKind`.
+ */
+type SameKind<A extends SchemaItem, B extends SchemaItem> = [
+  A['type'],
+  ItemKind<A>,
+] extends [B['type'], ItemKind<B>]
+  ? [B['type'], ItemKind<B>] extends [A['type'], ItemKind<A>]
+    ? true
+    : false
+  : false;
+
+/**
+ * Merges two schemas at the type level. Nested groups are merged; for other
+ * shared keys the second schema wins.
+ */
+export type MergeTwoSchemas<A extends EnvSchema, B extends EnvSchema> = {
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends keyof A
+      ? MergeValues<A[K], B[K]>
+      : B[K]
+    : K extends keyof A
+      ? A[K]
+      : never;
+};
+
+/**
+ * Merges two values defined under the same key.
+ */
+type MergeValues<A, B> = A extends SchemaItem
+  ? B
+  : B extends SchemaItem
+    ? B
+    : A extends EnvSchema
+      ? B extends EnvSchema
+        ? MergeTwoSchemas<A, B>
+        : B
+      : B;
+
+/**
+ * Merges a list of schemas at the type level, left to right.
+ */
+export type MergeSchemas<
+  T extends readonly EnvSchema[],
+  Acc extends EnvSchema = EmptySchema,
+> = T extends readonly [
+  infer H extends EnvSchema,
+  ...infer R extends readonly EnvSchema[],
+]
+  ? MergeSchemas<R, MergeTwoSchemas<Acc, H>>
+  : Acc;
+
+/**
+ * Lists the keys two schemas define with conflicting types, with nested keys
+ * as dot-separated paths.
+ */
+type ConflictingKeys<A extends EnvSchema, B extends EnvSchema> = {
+  [K in keyof A & keyof B & string]: ConflictAt<K, A[K], B[K]>;
+}[keyof A & keyof B & string];
+
+/**
+ * Returns the key when two values defined under it conflict, or the
+ * conflicting nested keys of two groups.
+ */
+type ConflictAt<K extends string, A, B> = A extends SchemaItem
+  ? B extends SchemaItem
+    ? SameKind<A, B> extends true
+      ? never
+      : K
+    : K
+  : B extends SchemaItem
+    ? K
+    : A extends EnvSchema
+      ? B extends EnvSchema
+        ? `${K}.${ConflictingKeys<A, B>}`
+        : never
+      : never;
+
+/**
+ * Lists the keys a list of schemas defines with conflicting types.
+ */
+export type SchemaConflicts<
+  T extends readonly EnvSchema[],
+  Acc extends EnvSchema = EmptySchema,
+> = T extends readonly [
+  infer H extends EnvSchema,
+  ...infer R extends readonly EnvSchema[],
+]
+  ? ConflictingKeys<Acc, H> | SchemaConflicts<R, MergeTwoSchemas<Acc, H>>
+  : never;
+
+/**
+ * Rejects the arguments of `mergeSchemas` when they conflict.
+ * The property name surfaces the conflicting keys in the compiler error.
+ */
+type CheckConflicts<T extends readonly EnvSchema[]> = [
+  SchemaConflicts<T>,
+] extends [never]
+  ? unknown
+  : { conflictingKeys: SchemaConflicts<T> };
+
+/**
+ * Describes the kind of a schema item or group for error messages.
+ */
+function describeKind(value: SchemaItem | EnvSchema): string {
+  if (!isSchemaItem(value)) {
+    return 'group';
+  }
+  if (value.type !== 'array') {
+    return value.type;
+  }
+  const itemType =
+    typeof value.itemType === 'string' ? value.itemType : value.itemType.type;
+  return `array of ${itemType}`;
+}
+
+/**
+ * Merges `source` into `target`, recursing into nested groups.
+ */
+function mergeInto(target: EnvSchema, source: EnvSchema, path: string): void {
+  for (const [key, value] of Object.entries(source)) {
+    const existing = target[key];
+    const keyPath = path ? `${path}.${key}` : key;
+
+    if (existing === undefined) {
+      target[key] = isSchemaItem(value) ? value : mergeGroups(value, keyPath);
+      continue;
+    }
+
+    const existingKind = describeKind(existing);
+    const kind = describeKind(value);
+    if (existingKind !== kind) {
+      throw new SchemaConflictError(keyPath, existingKind, kind);
+    }
+
+    if (isSchemaItem(value)) {
+      target[key] = value;
+    } else {
+      mergeInto(existing as EnvSchema, value, keyPath);
+    }
+  }
+}
+
+/**
+ * Copies a group so that merging never mutates the input schemas.
+ */
+function mergeGroups(group: EnvSchema, path: string): EnvSchema {
+  const copy: EnvSchema = {};
+  mergeInto(copy, group, path);
+  return copy;
+}
+
+/**
+ * Defines a schema, keeping literal types (such as `enum` values) without
+ * `as const`.
+ *
+ * @param schema - The schema definition
+ * @returns The same schema, typed with its literal values
+ *
+ * @example
+ * ```typescript
+ * const logging = defineSchema({
+ *   LOG_LEVEL: { type: 'string', enum: ['debug', 'info', 'warn'], default: 'info' },
+ * });
+ *
+ * // env.LOG_LEVEL is 'debug' | 'info' | 'warn'
+ * const env = createEnv(logging);
+ * ```
+ */
+export function defineSchema<const S extends EnvSchema>(schema: S): S {
+  return schema;
+}
+
+/**
+ * Merges schemas left to right into a new schema. Nested groups are merged;
+ * for other shared keys the later schema wins, as long as both define the
+ * same type.
+ *
+ * @param schemas - The schemas to merge
+ * @returns The merged schema
+ * @throws {SchemaConflictError} When two schemas define the same key with
+ *   different types. This is also a compile-time error.
+ *
+ * @example
+ * ```typescript
+ * const schema = mergeSchemas(loggingSchema, tracingSchema, {
+ *   TABLE_NAME: { type: 'dynamodb-table-name', required: true },
+ * });
+ * ```
+ */
+export function mergeSchemas<const T extends readonly EnvSchema[]>(
+  ...schemas: T & CheckConflicts<T>
+): MergeSchemas<T> {
+  const merged: EnvSchema = {};
+  for (const schema of schemas) {
+    mergeInto(merged, schema, '');
+  }
+  return merged as MergeSchemas<T>;
+}
+
+/**
+ * Creates a schema with only the given top-level keys.
+ *
+ * @param schema - The source schema
+ * @param keys - The keys to keep
+ * @returns A new schema with the picked keys
+ *
+ * @example
+ * ```typescript
+ * const dbOnly = pickSchema(baseSchema, ['DB_HOST', 'DB_PORT']);
+ * ```
+ */
+export function pickSchema<
+  const S extends EnvSchema,
+  const K extends keyof S & string,
+>(schema: S, keys: readonly K[]): Pick<S, K> {
+  const picked: EnvSchema = {};
+  for (const key of keys) {
+    if (key in schema) {
+      picked[key] = schema[key];
+    }
+  }
+  return picked as Pick<S, K>;
+}
+
+/**
+ * Creates a schema without the given top-level keys.
+ *
+ * @param schema - The source schema
+ * @param keys - The keys to remove
+ * @returns A new schema without the omitted keys
+ *
+ * @example
+ * ```typescript
+ * const withoutTracing = omitSchema(baseSchema, ['TRACE_SAMPLE_RATE']);
+ * ```
+ */
+export function omitSchema<
+  const S extends EnvSchema,
+  const K extends keyof S & string,
+>(schema: S, keys: readonly K[]): Omit<S, K> {
+  const omitted: EnvSchema = { ...schema };
+  for (const key of keys) {
+    delete omitted[key];
+  }
+  return omitted as Omit<S, K>;
+}
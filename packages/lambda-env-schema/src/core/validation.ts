@@ -2,6 +2,7 @@
  * Validation functions for environment variable schema validation.
  */
 
+import { AWS_ENV_MAPPING, LAMBDA_RUNTIME_ENV_NAMES } from '../aws/aws-env';
 import type { AWSValidationType } from '../aws/aws-validation-types';
 import {
   AWS_REGIONS,
@@ -18,6 +19,7 @@ import {
   isValidKMSKeyArn,
   isValidKMSKeyId,
   isValidLambdaFunctionName,
+  isValidPort,
   isValidRDSClusterId,
   isValidRDSEndpoint,
   isValidS3Arn,
@@ -56,13 +58,26 @@ import type {
   ParsedSNSTopicArn,
   ParsedSQSQueueArn,
   ParsedSQSQueueUrl,
+  ParsedUrl,
 } from '../aws/parsed-types';
 import type { ValidationError } from '../share/errors';
 import type {
   AWSParsedType,
   AWSValidationOnlyType,
+  DateSchema,
+  EnvSchema,
+  RequiredCondition,
   SchemaItem,
+  UrlSchema,
 } from '../share/types';
+import {
+  type CoercionResult,
+  coerceBytes,
+  coerceDuration,
+  formatBytes,
+  formatDuration,
+  resolveDateBound,
+} from './coercion';
 
 /**
  * Formats a value for display in error messages.
@@ -169,6 +184,141 @@ export function checkRequired(
   return { valid: true };
 }
 
+/**
+ * Evaluates a conditional requirement.
+ *
+ * @param condition - The condition to evaluate
+ * @param values - Validated values keyed by schema key
+ * @param raw - The raw environment object
+ * @returns Whether the condition holds
+ */
+function evaluateCondition(
+  condition: RequiredCondition,
+  values: Readonly<Record<string, unknown>>,
+  raw: Readonly<Record<string, string | undefined>>
+): boolean {
+  if (typeof condition === 'function') {
+    return condition(values, raw);
+  }
+
+  if ('test' in condition) {
+    return condition.test(values, raw);
+  }
+
+  const actual =
+    condition.key in values ? values[condition.key] : raw[condition.key];
+  if (condition.equals === undefined) {
+    return actual !== undefined;
+  }
+
+  const expected: readonly unknown[] = Array.isArray(condition.equals)
+    ? condition.equals
+    : [condition.equals];
+  return expected.includes(actual);
+}
+
+/**
+ * Describes a conditional requirement for use in error messages.
+ *
+ * @param condition - The condition to describe
+ * @returns A human-readable description of the condition
+ */
+function describeCondition(condition: RequiredCondition): string {
+  if (typeof condition === 'function') {
+    return 'a custom condition holds';
+  }
+
+  if ('test' in condition) {
+    return condition.description;
+  }
+
+  if (condition.equals === undefined) {
+    return `${condition.key} is set`;
+  }
+
+  const expected: readonly unknown[] = Array.isArray(condition.equals)
+    ? condition.equals
+    : [condition.equals];
+  const formatted = expected.map((v) => formatValue(v, false));
+  return formatted.length === 1
+    ? `${condition.key} is ${formatted[0]}`
+    : `${condition.key} is one of [${formatted.join(', ')}]`;
+}
+
+/**
+ * Checks `requiredWhen` and `requiredUnless` for a variable that is not set.
+ * Variables with a default value are never conditionally required.
+ *
+ * @param key - The environment variable name
+ * @param schema - The schema item for this variable
+ * @param value - The environment variable value (may be undefined)
+ * @param values - Validated values keyed by schema key
+ * @param raw - The raw environment object
+ * @returns RequiredCheckResult indicating if the check passed
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   type: 'string',
+ *   requiredWhen: { key: 'DB_AUTH_MODE', equals: 'password' },
+ * };
+ *
+ * checkConditionalRequired('DB_PASSWORD', schema, undefined, { DB_AUTH_MODE: 'password' }, {});
+ * // { valid: false, error: { key: 'DB_PASSWORD', message: 'Required when DB_AUTH_MODE is "password" but not set' } }
+ *
+ * checkConditionalRequired('DB_PASSWORD', schema, undefined, { DB_AUTH_MODE: 'iam' }, {});
+ * // { valid: true }
+ * ```
+ */
+export function checkConditionalRequired(
+  key: string,
+  schema: SchemaItem,
+  value: string | undefined,
+  values: Readonly<Record<string, unknown>>,
+  raw: Readonly<Record<string, string | undefined>>
+): RequiredCheckResult {
+  if (value !== undefined) {
+    return { valid: true };
+  }
+
+  if ('default' in schema && schema.default !== undefined) {
+    return { valid: true };
+  }
+
+  let reason: string | undefined;
+  try {
+    if (
+      schema.requiredWhen !== undefined &&
+      evaluateCondition(schema.requiredWhen, values, raw)
+    ) {
+      reason = `when ${describeCondition(schema.requiredWhen)}`;
+    } else if (
+      schema.requiredUnless !== undefined &&
+      !evaluateCondition(schema.requiredUnless, values, raw)
+    ) {
+      reason = `unless ${describeCondition(schema.requiredUnless)}`;
+    }
+  } catch (e) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    return {
+      valid: false,
+      error: { key, message: `Required condition failed: ${errorMessage}` },
+    };
+  }
+
+  if (reason === undefined) {
+    return { valid: true };
+  }
+
+  return {
+    valid: false,
+    error: {
+      key,
+      message: `Required ${reason} but not set`,
+    },
+  };
+}
+
 /**
  * Result of applying a default value.
  * Contains the value to use (either the original or the default).
@@ -226,7 +376,7 @@ export type EnumCheckResult =
 
 /**
  * Checks if a value is in the allowed enum values.
- * Only applies to string schemas with an enum defined.
+ * Only applies to string, number and boolean schemas with an enum defined.
  *
  * @param key - The environment variable name
  * @param schema - The schema item for this variable
@@ -243,6 +393,10 @@ export type EnumCheckResult =
  * checkEnum('NODE_ENV', { type: 'string', enum: ['development', 'production'] }, 'staging');
  * // { valid: false, error: { key: 'NODE_ENV', message: 'Must be one of ...', ... } }
  *
+ * // Numbers are listed unquoted
+ * checkEnum('API_VERSION', { type: 'number', enum: [1, 2] }, 3);
+ * // { valid: false, error: { message: 'Must be one of [1, 2], got 3', ... } }
+ *
  * // No enum defined - passes
  * checkEnum('API_KEY', { type: 'string' }, 'any-value');
  * // { valid: true }
@@ -253,28 +407,34 @@ export function checkEnum(
   schema: SchemaItem,
   value: unknown
 ): EnumCheckResult {
-  // Only string schemas can have enum
-  if (schema.type !== 'string') {
+  // Only string, number and boolean schemas can have enum
+  if (
+    schema.type !== 'string' &&
+    schema.type !== 'number' &&
+    schema.type !== 'boolean'
+  ) {
     return { valid: true };
   }
 
   // If no enum defined, skip check
-  if (!schema.enum || schema.enum.length === 0) {
+  const allowed: readonly unknown[] | undefined = schema.enum;
+  if (!allowed || allowed.length === 0) {
     return { valid: true };
   }
 
   // Check if value is in the enum list
-  if (schema.enum.includes(value as string)) {
+  if (allowed.includes(value)) {
     return { valid: true };
   }
 
-  // Value not in enum - return error
-  const allowedValues = schema.enum.map((v) => `"${v}"`).join(', ');
+  // Value not in enum - return error, quoting strings only
+  const format = (v: unknown) => (typeof v === 'string' ? `"${v}"` : String(v));
+  const allowedValues = allowed.map(format).join(', ');
   return {
     valid: false,
     error: {
       key,
-      message: `Must be one of [${allowedValues}], got "${value}"`,
+      message: `Must be one of [${allowedValues}], got ${format(value)}`,
       expected: `one of [${allowedValues}]`,
       received: String(value),
     },
@@ -288,10 +448,191 @@ export type ConstraintCheckResult =
   | { valid: true }
   | { valid: false; errors: ValidationError[] };
 
+/**
+ * Checks whether a value is a multiple of a step, allowing for floating
+ * point error (e.g. 0.3 is a multiple of 0.1).
+ */
+function isMultipleOf(value: number, step: number): boolean {
+  const quotient = value / step;
+  return Math.abs(quotient - Math.round(quotient)) < 1e-9;
+}
+
+/**
+ * Reports a schema bound that does not parse, so that a typo such as
+ * `max: '5 minuts'` fails instead of disabling the check.
+ */
+function invalidBound(
+  key: string,
+  option: string,
+  bound: string,
+  result: CoercionResult<unknown>
+): ValidationError {
+  const reason = (result as { success: false; error: string }).error;
+  return { key, message: `Invalid ${option} "${bound}" in schema: ${reason}` };
+}
+
+/**
+ * Checks `min` and `max` given in a unit notation, such as "1s" or "6MB".
+ * Bounds are parsed with the type's own coercion and the messages show
+ * every value in normalised form. Bounds that do not parse are reported.
+ */
+function checkUnitRange(
+  key: string,
+  schema: { min?: string; max?: string },
+  value: number,
+  parse: (value: string) => CoercionResult<number>,
+  format: (value: number) => string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  const min = schema.min !== undefined ? parse(schema.min) : null;
+  if (min && !min.success) {
+    errors.push(invalidBound(key, 'min', schema.min as string, min));
+  } else if (min?.success && value < min.value) {
+    errors.push({
+      key,
+      message: `Must be at least ${format(min.value)}, got ${format(value)}`,
+      expected: `>= ${format(min.value)}`,
+      received: format(value),
+    });
+  }
+
+  const max = schema.max !== undefined ? parse(schema.max) : null;
+  if (max && !max.success) {
+    errors.push(invalidBound(key, 'max', schema.max as string, max));
+  } else if (max?.success && value > max.value) {
+    errors.push({
+      key,
+      message: `Must be at most ${format(max.value)}, got ${format(value)}`,
+      expected: `<= ${format(max.value)}`,
+      received: format(value),
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks the `after` and `before` bounds of a date. Relative bounds such as
+ * "now+1d" are resolved at check time and shown with the resolved date.
+ * Bounds that do not parse are reported.
+ */
+function checkDateRange(
+  key: string,
+  schema: DateSchema,
+  value: Date
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const now = Date.now();
+  const describe = (bound: string, date: Date) =>
+    bound.startsWith('now')
+      ? `${bound} (${date.toISOString()})`
+      : date.toISOString();
+
+  const after =
+    schema.after !== undefined ? resolveDateBound(schema.after, now) : null;
+  if (after && !after.success) {
+    errors.push(invalidBound(key, 'after', schema.after as string, after));
+  } else if (after?.success && value.getTime() <= after.value.getTime()) {
+    const bound = describe(schema.after as string, after.value);
+    errors.push({
+      key,
+      message: `Must be after ${bound}, got ${value.toISOString()}`,
+      expected: `after ${bound}`,
+      received: value.toISOString(),
+    });
+  }
+
+  const before =
+    schema.before !== undefined ? resolveDateBound(schema.before, now) : null;
+  if (before && !before.success) {
+    errors.push(invalidBound(key, 'before', schema.before as string, before));
+  } else if (before?.success && value.getTime() >= before.value.getTime()) {
+    const bound = describe(schema.before as string, before.value);
+    errors.push({
+      key,
+      message: `Must be before ${bound}, got ${value.toISOString()}`,
+      expected: `before ${bound}`,
+      received: value.toISOString(),
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Checks whether a hostname matches an allowed host, where a leading `*.`
+ * matches any subdomain.
+ */
+function matchesHost(hostname: string, allowed: string): boolean {
+  const pattern = allowed.toLowerCase();
+  return pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern;
+}
+
+/**
+ * Checks the protocol, host and path constraints of a URL schema.
+ */
+function checkUrlConstraints(
+  key: string,
+  schema: UrlSchema,
+  url: ParsedUrl
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (schema.protocols !== undefined) {
+    const protocols = schema.protocols.map((p) => p.replace(/:$/, ''));
+    if (!protocols.includes(url.protocol)) {
+      errors.push({
+        key,
+        message: `Protocol must be one of [${protocols.join(', ')}], got "${url.protocol}"`,
+        expected: `protocol one of [${protocols.join(', ')}]`,
+        received: url.protocol,
+      });
+    }
+  }
+
+  if (
+    schema.allowedHosts !== undefined &&
+    !schema.allowedHosts.some((host) => matchesHost(url.hostname, host))
+  ) {
+    errors.push({
+      key,
+      message: `Host must be one of [${schema.allowedHosts.join(', ')}], got "${url.hostname}"`,
+      expected: `host one of [${schema.allowedHosts.join(', ')}]`,
+      received: url.hostname,
+    });
+  }
+
+  if (schema.requirePath && (url.pathname === '' || url.pathname === '/')) {
+    errors.push({
+      key,
+      message: `Must include a path, got "${url.value}"`,
+      expected: 'URL with a path',
+      received: url.value,
+    });
+  }
+
+  // Checked on the original string, since "https://a.com" and
+  // "https://a.com/" both parse to the path "/"
+  if (schema.noTrailingSlash && url.value.split(/[?#]/)[0].endsWith('/')) {
+    errors.push({
+      key,
+      message: `Must not end with a trailing slash, got "${url.value}"`,
+      expected: 'URL without a trailing slash',
+      received: url.value,
+    });
+  }
+
+  return errors;
+}
+
 /**
  * Checks if a value satisfies the constraints defined in the schema.
- * Supports min/max for numbers, pattern/minLength/maxLength for strings,
- * and minLength/maxLength for arrays.
+ * Supports min/max for numbers, durations and byte sizes,
+ * pattern/minLength/maxLength for strings, minLength/maxLength for arrays,
+ * and protocol, host and path constraints for URLs.
  *
  * @param key - The environment variable name
  * @param schema - The schema item for this variable
@@ -343,6 +684,137 @@ export function checkConstraints(
         received: String(value),
       });
     }
+
+    if (schema.exclusiveMin !== undefined && value <= schema.exclusiveMin) {
+      errors.push({
+        key,
+        message: `Must be greater than ${schema.exclusiveMin}, got ${value}`,
+        expected: `> ${schema.exclusiveMin}`,
+        received: String(value),
+      });
+    }
+
+    if (schema.exclusiveMax !== undefined && value >= schema.exclusiveMax) {
+      errors.push({
+        key,
+        message: `Must be less than ${schema.exclusiveMax}, got ${value}`,
+        expected: `< ${schema.exclusiveMax}`,
+        received: String(value),
+      });
+    }
+
+    if (schema.integer && !Number.isInteger(value)) {
+      errors.push({
+        key,
+        message: `Must be an integer, got ${value}`,
+        expected: 'integer',
+        received: String(value),
+      });
+    }
+
+    if (schema.positive && !(value > 0)) {
+      errors.push({
+        key,
+        message: `Must be positive, got ${value}`,
+        expected: '> 0',
+        received: String(value),
+      });
+    }
+
+    if (
+      schema.multipleOf !== undefined &&
+      !isMultipleOf(value, schema.multipleOf)
+    ) {
+      errors.push({
+        key,
+        message: `Must be a multiple of ${schema.multipleOf}, got ${value}`,
+        expected: `multiple of ${schema.multipleOf}`,
+        received: String(value),
+      });
+    }
+  }
+
+  // BigInt constraints: min, max (bigints)
+  if (schema.type === 'bigint' && typeof value === 'bigint') {
+    if (schema.min !== undefined && value < schema.min) {
+      errors.push({
+        key,
+        message: `Must be at least ${schema.min}, got ${value}`,
+        expected: `>= ${schema.min}`,
+        received: String(value),
+      });
+    }
+
+    if (schema.max !== undefined && value > schema.max) {
+      errors.push({
+        key,
+        message: `Must be at most ${schema.max}, got ${value}`,
+        expected: `<= ${schema.max}`,
+        received: String(value),
+      });
+    }
+  }
+
+  // Decimal constraints: precision, scale
+  if (schema.type === 'decimal' && typeof value === 'string') {
+    const [integer, fraction = ''] = value.replace(/^-/, '').split('.');
+    const digits = integer.replace(/^0+/, '').length + fraction.length;
+
+    if (schema.precision !== undefined && digits > schema.precision) {
+      errors.push({
+        key,
+        message: `Must have at most ${schema.precision} digits, got ${digits}`,
+        expected: `precision <= ${schema.precision}`,
+        received: String(digits),
+      });
+    }
+
+    if (schema.scale !== undefined && fraction.length > schema.scale) {
+      errors.push({
+        key,
+        message: `Must have at most ${schema.scale} decimal places, got ${fraction.length}`,
+        expected: `scale <= ${schema.scale}`,
+        received: String(fraction.length),
+      });
+    }
+  }
+
+  // Date constraints: after, before (dates or relative to now)
+  if (schema.type === 'date' && value instanceof Date) {
+    errors.push(...checkDateRange(key, schema, value));
+  }
+
+  // Duration constraints: min, max (duration strings)
+  if (schema.type === 'duration' && typeof value === 'number') {
+    errors.push(
+      ...checkUnitRange(key, schema, value, coerceDuration, formatDuration)
+    );
+  }
+
+  // Byte size constraints: min, max (byte size strings)
+  if (schema.type === 'bytes' && typeof value === 'number') {
+    errors.push(
+      ...checkUnitRange(key, schema, value, coerceBytes, formatBytes)
+    );
+  }
+
+  // Port range, for defaults that skip coercion
+  if (
+    schema.type === 'port' &&
+    typeof value === 'number' &&
+    !isValidPort(String(value))
+  ) {
+    errors.push({
+      key,
+      message: `Expected port (1-65535), got ${value}`,
+      expected: 'port (1-65535)',
+      received: String(value),
+    });
+  }
+
+  // URL constraints: protocols, allowedHosts, requirePath, noTrailingSlash
+  if (schema.type === 'url' && typeof value === 'object' && value !== null) {
+    errors.push(...checkUrlConstraints(key, schema, value as ParsedUrl));
   }
 
   // String constraints: pattern, minLength, maxLength
@@ -403,6 +875,247 @@ export function checkConstraints(
   return { valid: true };
 }
 
+/**
+ * Result of running a schema's custom `validate` hook.
+ */
+export type CustomCheckResult =
+  | { valid: true }
+  | { valid: false; error: ValidationError };
+
+/**
+ * Runs the custom `validate` hook defined in the schema, if any.
+ * The hook returns `true` when valid, or an error message otherwise.
+ * A thrown error is reported as a validation failure.
+ *
+ * @param key - The environment variable name
+ * @param schema - The schema item for this variable
+ * @param value - The coerced value to check
+ * @returns CustomCheckResult indicating if the check passed
+ *
+ * @example
+ * ```typescript
+ * const schema = {
+ *   type: 'string',
+ *   validate: (v: string) => v.startsWith('t-') || 'Must start with "t-"',
+ * };
+ *
+ * checkCustom('TENANT_ID', schema, 't-123');
+ * // { valid: true }
+ *
+ * checkCustom('TENANT_ID', schema, '123');
+ * // { valid: false, error: { key: 'TENANT_ID', message: 'Must start with "t-"' } }
+ * ```
+ */
+export function checkCustom(
+  key: string,
+  schema: SchemaItem,
+  value: unknown
+): CustomCheckResult {
+  if (schema.validate === undefined) {
+    return { valid: true };
+  }
+
+  let outcome: unknown;
+  try {
+    outcome = (schema.validate as (value: unknown) => unknown)(value);
+  } catch (e) {
+    outcome = e instanceof Error ? e.message : 'Custom validation threw';
+  }
+
+  if (outcome === true) {
+    return { valid: true };
+  }
+
+  return {
+    valid: false,
+    error: {
+      key,
+      message:
+        typeof outcome === 'string' && outcome !== ''
+          ? outcome
+          : 'Failed custom validation',
+    },
+  };
+}
+
+/**
+ * Result of running a schema's `transform` hook.
+ */
+export type TransformResult =
+  | { success: true; value: unknown }
+  | { success: false; error: ValidationError };
+
+/**
+ * Applies the `transform` hook defined in the schema, if any.
+ * A thrown error is reported as a validation failure.
+ *
+ * @param key - The environment variable name
+ * @param schema - The schema item for this variable
+ * @param value - The validated value to transform
+ * @returns TransformResult with the transformed value or an error
+ *
+ * @example
+ * ```typescript
+ * applyTransform('TIMEOUT', { type: 'number', transform: (v: number) => v * 1000 }, 30);
+ * // { success: true, value: 30000 }
+ *
+ * applyTransform('TIMEOUT', { type: 'number' }, 30);
+ * // { success: true, value: 30 }
+ * ```
+ */
+export function applyTransform(
+  key: string,
+  schema: SchemaItem,
+  value: unknown
+): TransformResult {
+  if (schema.transform === undefined) {
+    return { success: true, value };
+  }
+
+  try {
+    return {
+      success: true,
+      value: (schema.transform as (value: unknown) => unknown)(value),
+    };
+  } catch (e) {
+    const errorMessage = e instanceof Error ? e.message : 'Unknown error';
+    return {
+      success: false,
+      error: { key, message: `Transform failed: ${errorMessage}` },
+    };
+  }
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ *
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The minimum number of single-character edits between the strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Finds the candidate closest to the given name by edit distance.
+ * Only candidates within a distance proportional to the name length qualify.
+ *
+ * @param name - The (possibly misspelled) name
+ * @param candidates - The known names to compare against
+ * @returns The closest candidate, or undefined if none is close enough
+ *
+ * @example
+ * ```typescript
+ * findClosestName('ORDRES_TABLE_NAME', ['ORDERS_TABLE_NAME', 'PORT']);
+ * // 'ORDERS_TABLE_NAME'
+ *
+ * findClosestName('DEBUG', ['ORDERS_TABLE_NAME']);
+ * // undefined
+ * ```
+ */
+export function findClosestName(
+  name: string,
+  candidates: Iterable<string>
+): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(name.length / 4));
+  let closest: string | undefined;
+  let closestDistance = maxDistance + 1;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toUpperCase(), candidate.toUpperCase());
+    if (distance < closestDistance) {
+      closest = candidate;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Scope of the unknown-variable check in strict mode.
+ */
+export interface StrictScope {
+  /** Only variables starting with one of these prefixes are checked */
+  prefix?: string | readonly string[];
+  /** Variables that are allowed even though they are not in the schema */
+  allow?: readonly string[];
+}
+
+/**
+ * Reports environment variables that are in scope but not declared in the schema.
+ * Suggests the closest known name for likely typos.
+ *
+ * @param env - The environment object to check
+ * @param knownNames - Variable names declared by the schema
+ * @param scope - Which variables to check and which to allow
+ * @returns A validation error for every unknown variable
+ *
+ * @example
+ * ```typescript
+ * checkUnknownVariables(
+ *   { ORDRES_TABLE_NAME: 'orders' },
+ *   new Set(['ORDERS_TABLE_NAME']),
+ *   { prefix: 'ORD' }
+ * );
+ * // [{ key: 'ORDRES_TABLE_NAME', message: 'Not defined in schema, did you mean ORDERS_TABLE_NAME?' }]
+ * ```
+ */
+export function checkUnknownVariables(
+  env: Readonly<Record<string, string | undefined>>,
+  knownNames: ReadonlySet<string>,
+  scope: StrictScope
+): ValidationError[] {
+  const prefixes =
+    scope.prefix === undefined
+      ? ['']
+      : typeof scope.prefix === 'string'
+        ? [scope.prefix]
+        : scope.prefix;
+  const allowed = new Set([
+    ...Object.values(AWS_ENV_MAPPING),
+    ...LAMBDA_RUNTIME_ENV_NAMES,
+    ...(scope.allow ?? []),
+  ]);
+  const errors: ValidationError[] = [];
+
+  for (const name of Object.keys(env)) {
+    if (env[name] === undefined || knownNames.has(name) || allowed.has(name)) {
+      continue;
+    }
+    if (!prefixes.some((prefix) => name.startsWith(prefix))) {
+      continue;
+    }
+
+    const suggestion = findClosestName(name, knownNames);
+    errors.push({
+      key: name,
+      message:
+        suggestion !== undefined
+          ? `Not defined in schema, did you mean ${suggestion}?`
+          : 'Not defined in schema',
+    });
+  }
+
+  return errors;
+}
+
 /**
  * Descriptions for AWS validation types used in error messages.
  */
@@ -774,6 +1487,18 @@ export function isAWSResourceType(type: string): boolean {
   return isAWSParsedType(type) || isAWSValidationOnlyType(type);
 }
 
+/**
+ * Checks if a schema value is an item rather than a nested group.
+ *
+ * @param value - The schema value to check
+ * @returns true if the value is a schema item
+ */
+export function isSchemaItem(
+  value: SchemaItem | EnvSchema
+): value is SchemaItem {
+  return typeof value.type === 'string';
+}
+
 /**
  * Result of validating and parsing an AWS resource value.
  */
@@ -8,24 +8,66 @@
 // Main API
 // =============================================================================
 
-export type { CreateEnvOptions, EnvResult } from './core/create-env';
-export { createEnv } from './core/create-env';
+export type {
+  CreateEnvOptions,
+  EnvChange,
+  EnvMeta,
+  EnvResult,
+  EnvSource,
+  LazyEnvMethods,
+  RefineIssue,
+  ReloadableEnvMethods,
+  SafeEnvResult,
+} from './core/create-env';
+export { createEnv, safeCreateEnv } from './core/create-env';
+export { defineNamingStrategy } from './core/naming';
+export type { MergeSchemas } from './core/schema';
+export {
+  defineSchema,
+  mergeSchemas,
+  omitSchema,
+  pickSchema,
+} from './core/schema';
+export type { StrictScope } from './core/validation';
 
 // =============================================================================
 // Schema Types
 // =============================================================================
 
 export type {
+  ArrayItemSchema,
+  ArrayItemType,
+  ArrayOutput,
   ArraySchema,
+  BigIntSchema,
   BooleanSchema,
+  BytesSchema,
+  CidrSchema,
+  CustomNamingStrategy,
+  DateSchema,
+  DecimalSchema,
+  DurationSchema,
   EnvSchema,
+  HostnameSchema,
+  InferCoercedValue,
   InferEnv,
   InferValue,
+  IpSchema,
   JsonSchema,
+  KeyCase,
+  KeyMapper,
+  NamingStrategy,
+  NetworkType,
   NumberSchema,
   ParsedValueMap,
+  PortSchema,
+  RequiredCondition,
+  RequiredPredicate,
+  SchemaKey,
   // Schema item types for defining schemas
   StringSchema,
+  StripPrefixStrategy,
+  UrlSchema,
 } from './share/types';
 
 // =============================================================================
@@ -38,8 +80,12 @@ export type { AWSLambdaEnv } from './aws/aws-env';
 // Error Handling
 // =============================================================================
 
-export type { ValidationError } from './share/errors';
-export { EnvironmentValidationError } from './share/errors';
+export type { EnvWarning, ValidationError } from './share/errors';
+export {
+  EnvironmentValidationError,
+  SchemaConflictError,
+  UnknownEnvKeyError,
+} from './share/errors';
 
 // =============================================================================
 // AWS Validation Types
@@ -59,6 +105,7 @@ export type {
 export type {
   BaseParsedValue,
   ParsedArn,
+  ParsedCidr,
   ParsedDynamoDBTableArn,
   ParsedIAMRoleArn,
   ParsedKMSKeyArn,
@@ -70,6 +117,7 @@ export type {
   ParsedSNSTopicArn,
   ParsedSQSQueueArn,
   ParsedSQSQueueUrl,
+  ParsedUrl,
 } from './aws/parsed-types';
 
 // =============================================================================
@@ -128,6 +176,15 @@ export {
   parseLambdaFunctionArn,
 } from './aws/lambda-validators';
 
+// Network
+export {
+  isValidCidr,
+  isValidHostname,
+  isValidIp,
+  isValidPort,
+  parseCidr,
+} from './aws/network-validators';
+
 // RDS
 export {
   extractRegionFromRDSEndpoint,
@@ -12,6 +12,20 @@ export interface ValidationError {
   expected?: string;
 }
 
+/**
+ * Represents a non-fatal warning raised while reading environment variables.
+ */
+export interface EnvWarning {
+  /** The kind of warning */
+  type: 'deprecated-alias';
+  /** The environment variable name the schema expects */
+  key: string;
+  /** The deprecated alias that was found in the environment */
+  alias: string;
+  /** Human-readable warning message */
+  message: string;
+}
+
 /**
  * Formats a value for display in error messages.
  * Masks secret values with "***".
@@ -74,3 +88,64 @@ export class EnvironmentValidationError extends Error {
     }
   }
 }
+
+/**
+ * Error thrown when reading a property that is not declared in the schema
+ * from an environment object created with `guard: true`.
+ *
+ * @example
+ * ```typescript
+ * const env = createEnv({ PORT: { type: 'number' } }, { guard: true });
+ * env.PROT;
+ * // UnknownEnvKeyError: Unknown environment key "PROT", did you mean "PORT"?
+ * ```
+ */
+export class UnknownEnvKeyError extends Error {
+  readonly name = 'UnknownEnvKeyError' as const;
+  /** The property that was read */
+  readonly key: string;
+  /** The closest declared key, if any */
+  readonly suggestion: string | undefined;
+
+  constructor(key: string, suggestion?: string) {
+    super(
+      suggestion !== undefined
+        ? `Unknown environment key "${key}", did you mean "${suggestion}"?`
+        : `Unknown environment key "${key}"`
+    );
+    this.key = key;
+    this.suggestion = suggestion;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, UnknownEnvKeyError);
+    }
+  }
+}
+
+/**
+ * Error thrown by `mergeSchemas` when two schemas define the same key with
+ * conflicting types, and by `createEnv` when two keys map to the same
+ * output key under the naming strategy.
+ *
+ * @example
+ * ```typescript
+ * mergeSchemas({ PORT: { type: 'number' } }, { PORT: { type: 'string' } });
+ * // SchemaConflictError: Conflicting definitions for "PORT": number and string
+ * ```
+ */
+export class SchemaConflictError extends Error {
+  readonly name = 'SchemaConflictError' as const;
+  /** The conflicting schema key, with nested keys as dot-separated paths */
+  readonly key: string;
+
+  constructor(key: string, first: string, second: string) {
+    super(`Conflicting definitions for "${key}": ${first} and ${second}`);
+    this.key = key;
+
+    // Maintains proper stack trace for where our error was thrown (only available on V8)
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, SchemaConflictError);
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import type {
   ParsedArn,
+  ParsedCidr,
   ParsedDynamoDBTableArn,
   ParsedIAMRoleArn,
   ParsedKMSKeyArn,
@@ -11,12 +12,35 @@ import type {
   ParsedSNSTopicArn,
   ParsedSQSQueueArn,
   ParsedSQSQueueUrl,
+  ParsedUrl,
 } from '../aws/parsed-types';
 
 /**
  * Primitive environment variable types.
  */
-export type PrimitiveType = 'string' | 'number' | 'boolean' | 'array' | 'json';
+export type PrimitiveType =
+  | 'string'
+  | 'number'
+  | 'bigint'
+  | 'decimal'
+  | 'boolean'
+  | 'array'
+  | 'json'
+  | 'duration'
+  | 'bytes'
+  | 'url'
+  | 'date'
+  | NetworkType;
+
+/**
+ * Network types for hostnames, IP addresses, CIDR blocks and ports.
+ */
+export type NetworkType = 'hostname' | 'ip' | 'cidr' | 'port';
+
+/**
+ * Types that array items can be coerced to.
+ */
+export type ArrayItemType = 'string' | 'number' | NetworkType;
 
 /**
  * AWS resource types that return plain string (validation only).
@@ -69,22 +93,82 @@ export type SchemaType = PrimitiveType | AWSValidationOnlyType | AWSParsedType;
  */
 export type EnvType = 'string' | 'number' | 'boolean' | 'array' | 'json';
 
+/**
+ * Condition that makes a variable conditionally required.
+ *
+ * - `{ key }`: holds when the referenced variable is set
+ * - `{ key, equals }`: holds when the referenced variable equals the value
+ *   (or one of the values). Schema keys are compared by their validated
+ *   value, other names by their raw environment value.
+ * - `{ test, description }`: custom predicate with a description used in
+ *   error messages
+ * - A bare predicate function
+ */
+export type RequiredCondition =
+  | {
+      key: string;
+      equals?:
+        | string
+        | number
+        | boolean
+        | readonly (string | number | boolean)[];
+    }
+  | { test: RequiredPredicate; description: string }
+  | RequiredPredicate;
+
+/**
+ * Predicate for conditional requirements.
+ * Receives the validated values keyed by schema key (dot-separated paths
+ * for items in nested groups) and the raw environment.
+ */
+export type RequiredPredicate = (
+  values: Readonly<Record<string, unknown>>,
+  raw: Readonly<Record<string, string | undefined>>
+) => boolean;
+
 /**
  * Base schema interface with common properties.
+ *
+ * @typeParam T - The coerced value type passed to `validate` and `transform`
  */
-export interface BaseSchema {
+export interface BaseSchema<T = unknown> {
   /** Whether the environment variable is required */
   required?: boolean;
+  /** Makes the variable required when the condition holds */
+  requiredWhen?: RequiredCondition;
+  /** Makes the variable required unless the condition holds */
+  requiredUnless?: RequiredCondition;
   /** Whether the value should be masked in error messages */
   secret?: boolean;
   /** Description of the environment variable */
   description?: string;
+  /**
+   * Environment variable name to read from.
+   * Overrides the schema key and any `prefix`; the schema key stays the
+   * output property name.
+   */
+  envName?: string;
+  /**
+   * Deprecated variable names consulted in order when the primary name is unset.
+   * Aliases are used as-is, without `prefix`.
+   */
+  aliases?: readonly string[];
+  /**
+   * Custom validation run after the built-in checks.
+   * Return `true` when valid, or an error message otherwise.
+   */
+  validate?(value: T): true | string;
+  /**
+   * Maps the validated value to the final output value.
+   * The return type becomes the inferred type of the variable.
+   */
+  transform?(value: T): unknown;
 }
 
 /**
  * Schema for string environment variables.
  */
-export interface StringSchema<E extends string = string> extends BaseSchema {
+export interface StringSchema<E extends string = string> extends BaseSchema<E> {
   type: 'string';
   /** Default value if not set */
   default?: E;
@@ -101,56 +185,238 @@ export interface StringSchema<E extends string = string> extends BaseSchema {
 /**
  * Schema for number environment variables.
  */
-export interface NumberSchema extends BaseSchema {
+export interface NumberSchema<E extends number = number> extends BaseSchema<E> {
   type: 'number';
   /** Default value if not set */
-  default?: number;
+  default?: E;
+  /** Allowed values */
+  enum?: readonly E[];
   /** Minimum allowed value */
   min?: number;
   /** Maximum allowed value */
   max?: number;
+  /** Value must be greater than this */
+  exclusiveMin?: number;
+  /** Value must be less than this */
+  exclusiveMax?: number;
+  /** Whether the value must be a whole number */
+  integer?: boolean;
+  /** Whether the value must be greater than 0 */
+  positive?: boolean;
+  /** Value must be a multiple of this (e.g. 0.5) */
+  multipleOf?: number;
+}
+
+/**
+ * Schema for integer environment variables beyond `Number.MAX_SAFE_INTEGER`,
+ * such as snowflake IDs or counters. Values are converted to a bigint.
+ */
+export interface BigIntSchema extends BaseSchema<bigint> {
+  type: 'bigint';
+  /** Default value if not set */
+  default?: bigint;
+  /** Minimum allowed value */
+  min?: bigint;
+  /** Maximum allowed value */
+  max?: bigint;
+}
+
+/**
+ * Schema for exact decimal environment variables, such as amounts of money.
+ * Values are kept as the original string so no precision is lost.
+ */
+export interface DecimalSchema extends BaseSchema<string> {
+  type: 'decimal';
+  /** Default value if not set (e.g. "0.00") */
+  default?: string;
+  /** Maximum number of digits, before and after the decimal point */
+  precision?: number;
+  /** Maximum number of digits after the decimal point */
+  scale?: number;
 }
 
 /**
  * Schema for boolean environment variables.
  */
-export interface BooleanSchema extends BaseSchema {
+export interface BooleanSchema<E extends boolean = boolean>
+  extends BaseSchema<E> {
   type: 'boolean';
   /** Default value if not set */
-  default?: boolean;
+  default?: E;
+  /** Allowed values (e.g. `[false]` to forbid enabling a flag) */
+  enum?: readonly E[];
 }
 
+/**
+ * Output of an array schema: an array, or a `ReadonlySet` of the items.
+ */
+export type ArrayOutput = 'array' | 'set';
+
 /**
  * Schema for array environment variables.
+ * Items are given as a type name, or as a schema that each item is
+ * validated against (e.g. `{ type: 'subnet-id' }`).
  */
-export interface ArraySchema<T extends 'string' | 'number' = 'string'>
-  extends BaseSchema {
+export interface ArraySchema<
+  T extends ArrayItemType | ArrayItemSchema = 'string',
+> extends BaseSchema<ArrayItemValue<T>[]> {
   type: 'array';
-  /** Type of array items */
+  /** Type or schema of array items */
   itemType: T;
   /** Separator used to split the string (default: ",") */
   separator?: string;
   /** Default value if not set */
-  default?: T extends 'string' ? string[] : number[];
+  default?: ArrayItemValue<T>[];
   /** Minimum array length */
   minLength?: number;
   /** Maximum array length */
   maxLength?: number;
+  /**
+   * Rejects duplicate items when `true`, or drops them when "dedupe".
+   * Parsed values are compared by their raw string.
+   */
+  unique?: boolean | 'dedupe';
+  /** Drops empty items, such as the middle one in "a,,b" */
+  skipEmpty?: boolean;
+  /** Whether to trim whitespace around items (default: true) */
+  trim?: boolean;
+  /**
+   * Allows CSV-style quoted items that may contain the separator,
+   * with `""` for a literal quote (e.g. `"a,b",c`)
+   */
+  quoted?: boolean;
+  /**
+   * Returns a `ReadonlySet` instead of an array when "set".
+   * `validate` and `transform` still receive the array, and a `transform`
+   * result is returned as-is.
+   */
+  output?: ArrayOutput;
 }
 
 /**
  * Schema for JSON environment variables.
  */
-export interface JsonSchema<T = unknown> extends BaseSchema {
+export interface JsonSchema<T = unknown> extends BaseSchema<T> {
   type: 'json';
   /** Default value if not set */
   default?: T;
 }
 
+/**
+ * Schema for duration environment variables, such as "30s", "5m" or "PT1H".
+ * Values are converted to milliseconds.
+ */
+export interface DurationSchema extends BaseSchema<number> {
+  type: 'duration';
+  /** Default duration if not set (e.g. "30s") */
+  default?: string;
+  /** Minimum allowed duration (e.g. "1s") */
+  min?: string;
+  /** Maximum allowed duration (e.g. "15m") */
+  max?: string;
+}
+
+/**
+ * Schema for byte size environment variables, such as "6MB" or "256KiB".
+ * Values are converted to a number of bytes.
+ */
+export interface BytesSchema extends BaseSchema<number> {
+  type: 'bytes';
+  /** Default byte size if not set (e.g. "6MB") */
+  default?: string;
+  /** Minimum allowed byte size (e.g. "1KiB") */
+  min?: string;
+  /** Maximum allowed byte size (e.g. "6MB") */
+  max?: string;
+}
+
+/**
+ * Schema for URL environment variables, validated with the WHATWG URL parser.
+ * Credentials embedded in the URL are masked in error messages.
+ */
+export interface UrlSchema extends BaseSchema<ParsedUrl> {
+  type: 'url';
+  /** Default URL if not set */
+  default?: string;
+  /** Allowed protocols, without the trailing colon (e.g. ['https']) */
+  protocols?: readonly string[];
+  /**
+   * Allowed hostnames. A leading `*.` matches any subdomain
+   * (e.g. '*.example.com'), but not the domain itself.
+   */
+  allowedHosts?: readonly string[];
+  /** Whether the URL must have a path other than "/" */
+  requirePath?: boolean;
+  /** Whether the path must not end with "/" */
+  noTrailingSlash?: boolean;
+}
+
+/**
+ * Schema for date environment variables, given as ISO-8601 dates or epoch
+ * timestamps. Values are converted to a Date.
+ */
+export interface DateSchema extends BaseSchema<Date> {
+  type: 'date';
+  /** Default date if not set (e.g. "2025-01-01") */
+  default?: string;
+  /** Unit of epoch timestamps such as "1735689600" (default: "ms") */
+  epochUnit?: 's' | 'ms';
+  /**
+   * The date must be later than this: an ISO-8601 date, "now", or "now"
+   * plus or minus a duration (e.g. "now-1h").
+   */
+  after?: string;
+  /**
+   * The date must be earlier than this: an ISO-8601 date, "now", or "now"
+   * plus or minus a duration (e.g. "now+365d").
+   */
+  before?: string;
+}
+
+/**
+ * Schema for hostname environment variables (e.g. "redis.internal").
+ */
+export interface HostnameSchema extends BaseSchema<string> {
+  type: 'hostname';
+  /** Default value if not set */
+  default?: string;
+}
+
+/**
+ * Schema for IP address environment variables (e.g. "10.0.0.1", "::1").
+ */
+export interface IpSchema extends BaseSchema<string> {
+  type: 'ip';
+  /** Default value if not set */
+  default?: string;
+  /** Restricts values to IPv4 or IPv6 (default: either) */
+  version?: 4 | 6;
+}
+
+/**
+ * Schema for CIDR block environment variables (e.g. "10.0.0.0/16").
+ */
+export interface CidrSchema extends BaseSchema<ParsedCidr> {
+  type: 'cidr';
+  /** Default CIDR block if not set */
+  default?: string;
+  /** Restricts values to IPv4 or IPv6 blocks (default: either) */
+  version?: 4 | 6;
+}
+
+/**
+ * Schema for TCP/UDP port environment variables (1-65535).
+ */
+export interface PortSchema extends BaseSchema<number> {
+  type: 'port';
+  /** Default value if not set */
+  default?: number;
+}
+
 /**
  * Schema for AWS validation-only types (returns string).
  */
-export interface AWSValidationOnlySchema extends BaseSchema {
+export interface AWSValidationOnlySchema extends BaseSchema<string> {
   type: AWSValidationOnlyType;
   /** Default value if not set */
   default?: string;
@@ -160,27 +426,79 @@ export interface AWSValidationOnlySchema extends BaseSchema {
  * Schema for AWS parsed types (returns ParsedValue).
  */
 export interface AWSParsedSchema<T extends AWSParsedType = AWSParsedType>
-  extends BaseSchema {
+  extends BaseSchema<ParsedValueMap[T]> {
   type: T;
   // No default for parsed types (complex objects)
 }
 
 /**
- * Union of all schema types.
+ * Every schema type except arrays.
  */
-export type SchemaItem =
+type ScalarSchema =
   | StringSchema<string>
   | NumberSchema
+  | BigIntSchema
+  | DecimalSchema
   | BooleanSchema
-  | ArraySchema<'string' | 'number'>
   | JsonSchema
+  | DurationSchema
+  | BytesSchema
+  | UrlSchema
+  | DateSchema
+  | HostnameSchema
+  | IpSchema
+  | CidrSchema
+  | PortSchema
   | AWSValidationOnlySchema
-  | AWSParsedSchema;
+  | { [T in AWSParsedType]: AWSParsedSchema<T> }[AWSParsedType];
+
+/**
+ * Options that only apply to a whole variable, not to its array items.
+ */
+type VariableOnlyOption =
+  | 'required'
+  | 'requiredWhen'
+  | 'requiredUnless'
+  | 'envName'
+  | 'aliases'
+  | 'default';
+
+/**
+ * Schemas usable for array items: every schema type except arrays,
+ * without the options that only apply to a whole variable.
+ */
+export type ArrayItemSchema = ScalarSchema extends infer S
+  ? S extends ScalarSchema
+    ? Omit<S, VariableOnlyOption> & { [K in VariableOnlyOption]?: never }
+    : never
+  : never;
+
+/**
+ * Union of all schema types.
+ */
+export type SchemaItem =
+  | ScalarSchema
+  | { [T in ArrayItemType]: ArraySchema<T> }[ArrayItemType]
+  | ArraySchema<ArrayItemSchema>;
 
 /**
  * Schema definition object mapping environment variable names to their schemas.
+ * Values that are not schema items (they have no `type`) are nested groups:
+ * their keys are joined to the group key to form the variable name, and
+ * their values are grouped under the group key in the result.
+ *
+ * @example
+ * ```typescript
+ * // Reads DB_HOST and DB_PORT into env.db.HOST and env.db.PORT
+ * const schema = {
+ *   db: {
+ *     HOST: { type: 'string', required: true },
+ *     PORT: { type: 'number', default: 5432 },
+ *   },
+ * };
+ * ```
  */
-export type EnvSchema = Record<string, SchemaItem>;
+export type EnvSchema = { [key: string]: SchemaItem | EnvSchema };
 
 // ============================================================================
 // Type Inference Utilities
@@ -204,8 +522,39 @@ export type ParsedValueMap = {
   arn: ParsedArn;
 };
 
+/**
+ * Maps array item types to their coerced values.
+ */
+export type ArrayItemValueMap = {
+  string: string;
+  number: number;
+  hostname: string;
+  ip: string;
+  cidr: ParsedCidr;
+  port: number;
+};
+
+/**
+ * Infers the value of an array item from its item type or item schema.
+ */
+export type ArrayItemValue<T extends ArrayItemType | ArrayItemSchema> =
+  T extends ArrayItemType
+    ? ArrayItemValueMap[T]
+    : T extends ArrayItemSchema
+      ? InferValue<T>
+      : never;
+
+/**
+ * Infers the value of an array schema from its item type and output.
+ */
+type ArrayValue<
+  T extends ArrayItemType | ArrayItemSchema,
+  O extends ArrayOutput,
+> = O extends 'set' ? ReadonlySet<ArrayItemValue<T>> : ArrayItemValue<T>[];
+
 /**
  * Infers the value type from a schema item.
+ * When the schema defines `transform`, its return type is used.
  *
  * @example
  * ```typescript
@@ -214,32 +563,84 @@ export type ParsedValueMap = {
  *
  * type Q = AWSParsedSchema<'sqs-queue-url'>;
  * type V2 = InferValue<Q>; // ParsedSQSQueueUrl
+ *
+ * type T = { type: 'number'; transform: (value: number) => Date };
+ * type V3 = InferValue<T>; // Date
  * ```
  */
-export type InferValue<S extends SchemaItem> = S extends { type: infer T }
+export type InferValue<S extends SchemaItem> = S extends {
+  transform(value: never): infer U;
+}
+  ? U
+  : InferCoercedValue<S>;
+
+/**
+ * Infers the value type of a schema item that supports `enum`.
+ * Without an enum, only declared schema types (e.g. `NumberSchema<1 | 2>`)
+ * narrow, so a literal default (e.g. from defineSchema) does not.
+ */
+type InferEnumValue<S, Declared, Base> = S extends {
+  enum: readonly (infer E)[];
+}
+  ? E
+  : 'enum' extends keyof S
+    ? Declared
+    : Base;
+
+/**
+ * Infers the coerced value type from a schema item, before any `transform`.
+ */
+export type InferCoercedValue<S extends SchemaItem> = S extends {
+  type: infer T;
+}
   ? T extends keyof ParsedValueMap
     ? ParsedValueMap[T]
     : T extends AWSValidationOnlyType
       ? string
       : T extends 'string'
-        ? S extends StringSchema<infer E>
-          ? E
-          : string
+        ? InferEnumValue<
+            S,
+            S extends StringSchema<infer E> ? E : string,
+            string
+          >
         : T extends 'number'
-          ? number
-          : T extends 'boolean'
-            ? boolean
-            : T extends 'array'
-              ? S extends ArraySchema<infer I>
-                ? I extends 'string'
-                  ? string[]
-                  : number[]
-                : never
-              : T extends 'json'
-                ? S extends JsonSchema<infer J>
-                  ? J
-                  : unknown
-                : never
+          ? InferEnumValue<
+              S,
+              S extends NumberSchema<infer E> ? E : number,
+              number
+            >
+          : T extends 'bigint'
+            ? bigint
+            : T extends 'decimal'
+              ? string
+              : T extends 'boolean'
+                ? InferEnumValue<
+                    S,
+                    S extends BooleanSchema<infer E> ? E : boolean,
+                    boolean
+                  >
+                : T extends 'array'
+                  ? S extends {
+                      itemType: infer I extends ArrayItemType | ArrayItemSchema;
+                    }
+                    ? ArrayValue<
+                        I,
+                        S extends { output: 'set' } ? 'set' : 'array'
+                      >
+                    : never
+                  : T extends 'json'
+                    ? S extends JsonSchema<infer J>
+                      ? J
+                      : unknown
+                    : T extends 'duration' | 'bytes'
+                      ? number
+                      : T extends 'url'
+                        ? ParsedUrl
+                        : T extends 'date'
+                          ? Date
+                          : T extends NetworkType
+                            ? ArrayItemValueMap[T]
+                            : never
   : never;
 
 /**
@@ -259,6 +660,46 @@ export type IsRequired<S extends SchemaItem> = S extends { required: true }
 export type InferResult<S extends SchemaItem> =
   IsRequired<S> extends true ? InferValue<S> : InferValue<S> | undefined;
 
+/**
+ * Splits a SNAKE_CASE string into its words at the type level.
+ * Empty words from leading, trailing or repeated underscores are dropped,
+ * matching `splitWords` at runtime.
+ *
+ * @example
+ * ```typescript
+ * type Result = SplitWords<'_API__KEY'>; // ['API', 'KEY']
+ * ```
+ */
+export type SplitWords<S extends string> = S extends `${infer H}_${infer T}`
+  ? H extends ''
+    ? SplitWords<T>
+    : [H, ...SplitWords<T>]
+  : S extends ''
+    ? []
+    : [S];
+
+/**
+ * Joins words with every word capitalized.
+ */
+type JoinPascal<W extends readonly string[]> = W extends readonly [
+  infer H extends string,
+  ...infer R extends string[],
+]
+  ? `${Capitalize<Lowercase<H>>}${JoinPascal<R>}`
+  : '';
+
+/**
+ * Joins lower-cased words with hyphens.
+ */
+type JoinKebab<W extends readonly string[]> = W extends readonly [
+  infer H extends string,
+  ...infer R extends string[],
+]
+  ? R extends []
+    ? Lowercase<H>
+    : `${Lowercase<H>}-${JoinKebab<R>}`
+  : '';
+
 /**
  * Converts a SNAKE_CASE string to camelCase at the type level.
  *
@@ -267,12 +708,166 @@ export type InferResult<S extends SchemaItem> =
  * type Result = SnakeToCamel<'MY_ENV_VAR'>; // 'myEnvVar'
  * ```
  */
-export type SnakeToCamel<S extends string> = S extends `${infer T}_${infer U}`
-  ? `${Lowercase<T>}${Capitalize<SnakeToCamel<U>>}`
-  : Lowercase<S>;
+export type SnakeToCamel<S extends string> =
+  SplitWords<S> extends [infer H extends string, ...infer R extends string[]]
+    ? `${Lowercase<H>}${JoinPascal<R>}`
+    : '';
+
+/**
+ * Converts a SNAKE_CASE string to PascalCase at the type level.
+ *
+ * @example
+ * ```typescript
+ * type Result = SnakeToPascal<'MY_ENV_VAR'>; // 'MyEnvVar'
+ * ```
+ */
+export type SnakeToPascal<S extends string> = JoinPascal<SplitWords<S>>;
+
+/**
+ * Converts a SNAKE_CASE string to kebab-case at the type level.
+ *
+ * @example
+ * ```typescript
+ * type Result = SnakeToKebab<'MY_ENV_VAR'>; // 'my-env-var'
+ * ```
+ */
+export type SnakeToKebab<S extends string> = JoinKebab<SplitWords<S>>;
+
+/**
+ * Built-in key case conversions.
+ * - 'preserve': Keep original environment variable names
+ * - 'camelCase': Convert SNAKE_CASE to camelCase
+ * - 'PascalCase': Convert SNAKE_CASE to PascalCase
+ * - 'kebab-case': Convert SNAKE_CASE to kebab-case
+ */
+export type KeyCase = 'preserve' | 'camelCase' | 'PascalCase' | 'kebab-case';
+
+/**
+ * Removes a prefix from every key that starts with it, then applies a case
+ * conversion.
+ *
+ * @example
+ * ```typescript
+ * // APP_PORT -> port, LOG_LEVEL -> logLevel
+ * const strategy = { stripPrefix: 'APP_', case: 'camelCase' } as const;
+ * ```
+ */
+export interface StripPrefixStrategy<
+  P extends string = string,
+  C extends KeyCase = KeyCase,
+> {
+  /** Prefix removed from keys that start with it */
+  stripPrefix: P;
+  /** Case conversion applied after stripping (default: 'preserve') */
+  case?: C;
+}
+
+/**
+ * Type-level key mapping paired with a custom naming strategy.
+ * Extend it and compute `output` from `this['key']`.
+ *
+ * @example
+ * ```typescript
+ * interface UpperMapper extends KeyMapper {
+ *   output: Uppercase<this['key']>;
+ * }
+ * ```
+ */
+export interface KeyMapper {
+  /** The key being mapped */
+  key: string;
+  /** The mapped key */
+  output: string;
+}
+
+/**
+ * Applies a key mapper to a key at the type level.
+ */
+export type ApplyKeyMapper<M extends KeyMapper, K extends string> = (M & {
+  key: K;
+})['output'];
+
+/**
+ * User-supplied naming strategy: a runtime function paired with a
+ * type-level mapping. Create one with `defineNamingStrategy`.
+ */
+export interface CustomNamingStrategy<M extends KeyMapper = KeyMapper> {
+  /** Maps a schema key to its output property name */
+  rename(key: string): string;
+  /** Carries the type-level mapping; never set at runtime */
+  readonly mapper?: M;
+}
+
+/**
+ * Naming strategies for output keys: a built-in case conversion,
+ * a prefix-stripping strategy, or a custom strategy.
+ */
+export type NamingStrategy =
+  | KeyCase
+  | StripPrefixStrategy
+  | CustomNamingStrategy;
+
+/**
+ * Applies a key case conversion at the type level.
+ */
+type ApplyKeyCase<K extends string, C extends KeyCase> = C extends 'camelCase'
+  ? SnakeToCamel<K>
+  : C extends 'PascalCase'
+    ? SnakeToPascal<K>
+    : C extends 'kebab-case'
+      ? SnakeToKebab<K>
+      : K;
+
+/**
+ * Applies a naming strategy to a single key at the type level.
+ */
+export type ApplyNamingStrategy<
+  K extends string,
+  Strategy extends NamingStrategy,
+> = Strategy extends KeyCase
+  ? ApplyKeyCase<K, Strategy>
+  : Strategy extends StripPrefixStrategy<infer P, infer C>
+    ? ApplyKeyCase<
+        K extends `${P}${infer R}` ? R : K,
+        KeyCase extends C ? 'preserve' : C
+      >
+    : Strategy extends CustomNamingStrategy<infer M>
+      ? ApplyKeyMapper<M, K>
+      : K;
+
+/**
+ * Lists the keys of every schema item, with nested items written as
+ * dot-separated paths.
+ *
+ * @example
+ * ```typescript
+ * type Keys = SchemaKey<{
+ *   PORT: { type: 'number' };
+ *   db: { HOST: { type: 'string' } };
+ * }>;
+ * // 'PORT' | 'db.HOST'
+ * ```
+ */
+export type SchemaKey<S extends EnvSchema> = {
+  [K in keyof S & string]: SchemaKeyOf<K, S[K]>;
+}[keyof S & string];
+
+/**
+ * Lists the schema key of an item, or the prefixed keys of a nested group.
+ */
+type SchemaKeyOf<
+  K extends string,
+  V extends SchemaItem | EnvSchema,
+> = V extends SchemaItem
+  ? K
+  : V extends EnvSchema
+    ? `${K}.${SchemaKey<V>}`
+    : never;
 
 /**
  * Infers the entire environment object type from a schema.
+ * Nested groups become nested objects, with the naming strategy applied
+ * to the keys at every level.
  *
  * @example
  * ```typescript
@@ -286,13 +881,29 @@ export type SnakeToCamel<S extends string> = S extends `${infer T}_${infer U}`
  *
  * type EnvCamel = InferEnv<typeof schema, 'camelCase'>;
  * // { port: number; apiKey: string }
+ *
+ * type Grouped = InferEnv<{ DB: { HOST: { type: 'string'; required: true } } }, 'camelCase'>;
+ * // { db: { host: string } }
  * ```
  */
 export type InferEnv<
   S extends EnvSchema,
-  Strategy extends 'preserve' | 'camelCase' = 'preserve',
+  Strategy extends NamingStrategy = 'preserve',
 > = {
-  [K in keyof S as Strategy extends 'camelCase'
-    ? SnakeToCamel<K & string>
-    : K]: InferResult<S[K]>;
+  [K in keyof S as ApplyNamingStrategy<K & string, Strategy>]: InferNode<
+    S[K],
+    Strategy
+  >;
 };
+
+/**
+ * Infers the result type of a schema item or nested group.
+ */
+type InferNode<
+  V extends SchemaItem | EnvSchema,
+  Strategy extends NamingStrategy,
+> = V extends SchemaItem
+  ? InferResult<V>
+  : V extends EnvSchema
+    ? InferEnv<V, Strategy>
+    : never;
@@ -0,0 +1,24 @@
+/**
+ * Test utilities subpath export.
+ *
+ * Builds typed raw environments for schemas and overrides `process.env`
+ * for the duration of a test.
+ *
+ * @example
+ * ```typescript
+ * import { createTestEnv, withEnv } from '@kawaaaas/lambda-env-schema/testing';
+ *
+ * const env = createEnv(schema, {
+ *   env: createTestEnv(schema, { PORT: 8080 }),
+ * });
+ * ```
+ *
+ * @packageDocumentation
+ */
+
+export type {
+  TestEnvOptions,
+  TestEnvOverrides,
+  TestValue,
+} from './test-env';
+export { createTestEnv, withEnv } from './test-env';
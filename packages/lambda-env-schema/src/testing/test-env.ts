@@ -0,0 +1,366 @@
+/**
+ * Helpers for building environments in tests.
+ */
+
+import type { BaseParsedValue } from '../aws/parsed-types';
+import { resolveDateBound } from '../core/coercion';
+import { type CreateEnvOptions, flattenSchema } from '../core/create-env';
+import { applyDefault } from '../core/validation';
+import type {
+  ArrayItemSchema,
+  ArrayItemType,
+  ArraySchema,
+  AWSParsedType,
+  AWSValidationOnlyType,
+  DateSchema,
+  EnvSchema,
+  InferCoercedValue,
+  NumberSchema,
+  ParsedValueMap,
+  SchemaItem,
+} from '../share/types';
+
+/**
+ * Value accepted for a schema item in test overrides.
+ * AWS parsed types, URLs, CIDR blocks and dates also accept their raw
+ * string form.
+ */
+export type TestValue<S extends SchemaItem> = S extends {
+  type: infer T extends AWSParsedType;
+}
+  ? ParsedValueMap[T] | string
+  : S extends { type: 'url' | 'cidr' | 'date' }
+    ? InferCoercedValue<S> | string
+    : InferCoercedValue<S>;
+
+/**
+ * Overrides for `createTestEnv`, keyed like the schema.
+ * Set a key to `undefined` to leave its variable unset.
+ */
+export type TestEnvOverrides<S extends EnvSchema> = {
+  [K in keyof S]?: TestOverride<S[K]>;
+};
+
+/**
+ * Override for a schema item or nested group.
+ */
+type TestOverride<V> = V extends SchemaItem
+  ? TestValue<V> | undefined
+  : V extends EnvSchema
+    ? TestEnvOverrides<V>
+    : never;
+
+/**
+ * Options for `createTestEnv`. Must match the options the environment is
+ * validated with, so the generated variable names line up.
+ */
+export type TestEnvOptions = Pick<CreateEnvOptions, 'prefix' | 'joiner'>;
+
+/**
+ * Valid placeholder values for AWS types.
+ */
+const AWS_PLACEHOLDERS: Record<AWSValidationOnlyType | AWSParsedType, string> =
+  {
+    'aws-region': 'us-east-1',
+    'aws-account-id': '123456789012',
+    's3-bucket-name': 'test-bucket',
+    'dynamodb-table-name': 'test-table',
+    'rds-cluster-id': 'test-cluster',
+    'lambda-function-name': 'test-function',
+    'event-bus-name': 'default',
+    'api-gateway-id': 'a1b2c3d4e5',
+    'vpc-id': 'vpc-0123456789abcdef0',
+    'subnet-id': 'subnet-0123456789abcdef0',
+    'security-group-id': 'sg-0123456789abcdef0',
+    'ec2-instance-id': 'i-0123456789abcdef0',
+    'cloudfront-dist-id': 'E1ABCDEFGHIJKL',
+    'kms-key-id': '1234abcd-12ab-34cd-56ef-1234567890ab',
+    'ssm-parameter-name': '/test/parameter',
+    'iam-user-arn': 'arn:aws:iam::123456789012:user/test-user',
+    's3-arn': 'arn:aws:s3:::test-bucket',
+    's3-uri': 's3://test-bucket/test-key',
+    'sqs-queue-url':
+      'https://sqs.us-east-1.amazonaws.com/123456789012/test-queue',
+    'sqs-queue-arn': 'arn:aws:sqs:us-east-1:123456789012:test-queue',
+    'sns-topic-arn': 'arn:aws:sns:us-east-1:123456789012:test-topic',
+    'dynamodb-table-arn':
+      'arn:aws:dynamodb:us-east-1:123456789012:table/test-table',
+    'rds-endpoint':
+      'test-cluster.cluster-abcdefghijkl.us-east-1.rds.amazonaws.com',
+    'lambda-function-arn':
+      'arn:aws:lambda:us-east-1:123456789012:function:test-function',
+    'kms-key-arn':
+      'arn:aws:kms:us-east-1:123456789012:key/1234abcd-12ab-34cd-56ef-1234567890ab',
+    'secrets-manager-arn':
+      'arn:aws:secretsmanager:us-east-1:123456789012:secret:test-secret-AbCdEf',
+    'iam-role-arn': 'arn:aws:iam::123456789012:role/test-role',
+    arn: 'arn:aws:s3:::test-bucket',
+  };
+
+/**
+ * Returns the lowest number within the bounds of a number schema, or 1 when
+ * the schema has no lower bound.
+ */
+function numberPlaceholder(item: NumberSchema): string {
+  const step = item.multipleOf ?? 1;
+  const lower =
+    item.min ??
+    item.exclusiveMin ??
+    (item.positive
+      ? step
+      : Math.min(1, item.max ?? 1, (item.exclusiveMax ?? 2) - step));
+  let value = Math.ceil(lower / step) * step;
+  if (
+    (item.exclusiveMin !== undefined && value <= item.exclusiveMin) ||
+    (item.positive && value <= 0)
+  ) {
+    value += step;
+  }
+  return String(value);
+}
+
+/**
+ * Returns a date between the bounds of a date schema: midway when both are
+ * set, a day past a single bound, or 2000-01-01 without bounds.
+ */
+function datePlaceholder(item: DateSchema): Date {
+  const resolve = (bound: string | undefined) => {
+    const result = bound === undefined ? undefined : resolveDateBound(bound);
+    return result?.success ? result.value.getTime() : undefined;
+  };
+  const after = resolve(item.after);
+  const before = resolve(item.before);
+  const day = 86_400_000;
+
+  if (after !== undefined && before !== undefined) {
+    return new Date(Math.floor((after + before) / 2));
+  }
+  if (after !== undefined) return new Date(after + day);
+  if (before !== undefined) return new Date(before - day);
+  return new Date(Date.UTC(2000, 0, 1));
+}
+
+/**
+ * Returns the schema each item of an array is validated against.
+ */
+function itemSchemaOf(item: ArraySchema<ArrayItemType | ArrayItemSchema>) {
+  return typeof item.itemType === 'string'
+    ? ({ type: item.itemType } as ArrayItemSchema)
+    : item.itemType;
+}
+
+/**
+ * Quotes an array item that contains the separator, a quote or surrounding
+ * whitespace, doubling its quotes.
+ */
+function quoteItem(raw: string, separator: string): string {
+  return raw.includes(separator) || raw.includes('"') || raw !== raw.trim()
+    ? `"${raw.split('"').join('""')}"`
+    : raw;
+}
+
+/**
+ * Returns a raw value that passes the built-in checks of a schema item.
+ * `pattern`, `validate` and `unique` are not taken into account.
+ */
+function placeholderFor(item: SchemaItem): string {
+  switch (item.type) {
+    case 'string':
+      return (
+        item.enum?.[0] ??
+        'test'.padEnd(item.minLength ?? 0, 'x').slice(0, item.maxLength)
+      );
+    case 'number':
+      return item.enum?.length ? String(item.enum[0]) : numberPlaceholder(item);
+    case 'bigint':
+      return String(
+        item.min ?? (item.max !== undefined && item.max < 1n ? item.max : 1n)
+      );
+    case 'decimal':
+      return '0';
+    case 'boolean':
+      return String(item.enum?.[0] ?? false);
+    case 'array':
+      return Array.from({ length: Math.max(item.minLength ?? 1, 1) }, () =>
+        placeholderFor(itemSchemaOf(item))
+      ).join(item.separator ?? ',');
+    case 'json':
+      return '{}';
+    case 'duration':
+      return item.min ?? '1s';
+    case 'bytes':
+      return item.min ?? '1kB';
+    case 'url': {
+      const protocol = item.protocols?.[0]?.replace(/:$/, '') ?? 'https';
+      const host =
+        item.allowedHosts?.[0]?.replace(/^\*/, 'test') ?? 'example.com';
+      return `${protocol}://${host}/test`;
+    }
+    case 'date':
+      return datePlaceholder(item).toISOString();
+    case 'hostname':
+      return 'example.com';
+    case 'ip':
+      return item.version === 6 ? 'fd00::1' : '10.0.0.1';
+    case 'cidr':
+      return item.version === 6 ? 'fd00::/8' : '10.0.0.0/16';
+    case 'port':
+      return '8080';
+    default:
+      return AWS_PLACEHOLDERS[item.type];
+  }
+}
+
+/**
+ * Converts a typed value back to the raw string it is parsed from.
+ */
+function serialize(item: SchemaItem, value: unknown): string {
+  switch (item.type) {
+    case 'number':
+    case 'bigint':
+    case 'boolean':
+    case 'bytes':
+    case 'port':
+      return String(value);
+    case 'array': {
+      const separator = item.separator ?? ',';
+      return Array.from(value as Iterable<unknown>, (entry) => {
+        const raw = serialize(itemSchemaOf(item), entry);
+        return item.quoted ? quoteItem(raw, separator) : raw;
+      }).join(separator);
+    }
+    case 'json':
+      return JSON.stringify(value);
+    case 'duration':
+      return `${value}ms`;
+    case 'date':
+      return value instanceof Date ? value.toISOString() : String(value);
+    default:
+      return typeof value === 'string'
+        ? value
+        : (value as BaseParsedValue).value;
+  }
+}
+
+/**
+ * Looks up the override for a schema entry by its dot-separated key.
+ */
+function overrideAt(
+  overrides: Record<string, unknown>,
+  key: string
+): { found: boolean; value?: unknown } {
+  const path = key.split('.');
+  let group: unknown = overrides;
+  for (const segment of path.slice(0, -1)) {
+    group = (group as Record<string, unknown> | undefined)?.[segment];
+  }
+
+  const leaf = path[path.length - 1];
+  if (typeof group !== 'object' || group === null || !(leaf in group)) {
+    return { found: false };
+  }
+  return { found: true, value: (group as Record<string, unknown>)[leaf] };
+}
+
+/**
+ * Builds a raw environment for a schema, for use as the `env` option in tests.
+ * Overrides take typed values and are serialised to the strings they are
+ * parsed from. Required variables without an override or default get a
+ * valid placeholder; optional ones are left unset.
+ *
+ * @param schema - The schema to build the environment for
+ * @param overrides - Typed values keyed like the schema
+ * @param options - `prefix` and `joiner`, when the environment uses them
+ * @returns Raw environment variables keyed by variable name
+ *
+ * @example
+ * ```typescript
+ * const env = createEnv(schema, {
+ *   env: createTestEnv(schema, { PORT: 8080, FEATURES: ['a', 'b'] }),
+ * });
+ * // TABLE_ARN is filled with a valid placeholder ARN
+ * ```
+ */
+export function createTestEnv<const S extends EnvSchema>(
+  schema: S,
+  overrides: TestEnvOverrides<S> = {},
+  options?: TestEnvOptions
+): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const entry of flattenSchema(schema, options)) {
+    const override = overrideAt(overrides, entry.key);
+
+    if (override.found) {
+      if (override.value !== undefined) {
+        env[entry.envName] = serialize(entry.item, override.value);
+      }
+    } else if (
+      entry.item.required &&
+      !applyDefault(entry.item, undefined).hasValue
+    ) {
+      env[entry.envName] = placeholderFor(entry.item);
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Sets or unsets a `process.env` variable.
+ */
+function setProcessEnv(name: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+}
+
+/**
+ * Runs a function with `process.env` overridden, restoring the previous
+ * values afterwards. When the function returns a promise, the values are
+ * restored once it settles.
+ *
+ * @param vars - Variables to set; `undefined` unsets a variable
+ * @param fn - The function to run
+ * @returns The function's return value
+ *
+ * @example
+ * ```typescript
+ * await withEnv({ STAGE: 'prod', DEBUG: undefined }, async () => {
+ *   const { handler } = await import('./handler');
+ *   // ...
+ * });
+ * ```
+ */
+export function withEnv<T>(
+  vars: Record<string, string | undefined>,
+  fn: () => T
+): T {
+  const previous = new Map<string, string | undefined>();
+  for (const [name, value] of Object.entries(vars)) {
+    previous.set(name, process.env[name]);
+    setProcessEnv(name, value);
+  }
+
+  const restore = () => {
+    for (const [name, value] of previous) {
+      setProcessEnv(name, value);
+    }
+  };
+
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    restore();
+    throw error;
+  }
+
+  if (result instanceof Promise) {
+    return result.finally(restore) as T;
+  }
+  restore();
+  return result;
+}
@@ -0,0 +1,214 @@
+import * as fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  isValidHostname,
+  isValidIp,
+  isValidPort,
+  parseCidr,
+} from '../../../src/aws/network-validators';
+
+// Converts an IPv4 address to its 32-bit unsigned integer
+const ipv4ToInt = (ip: string): number =>
+  ip.split('.').reduce((n, octet) => n * 256 + Number(octet), 0);
+
+describe('hostname validation', () => {
+  it('accepts valid domain names', () => {
+    fc.assert(
+      fc.property(fc.domain(), (domain) => {
+        expect(isValidHostname(domain)).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects labels starting or ending with a hyphen', () => {
+    fc.assert(
+      fc.property(fc.domain(), fc.boolean(), (domain, leading) => {
+        const hostname = leading ? `-${domain}` : `${domain}-`;
+        expect(isValidHostname(hostname)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects hostnames longer than 253 characters', () => {
+    const label = 'a'.repeat(63);
+    expect(isValidHostname([label, label, label, label].join('.'))).toBe(false);
+    expect(
+      isValidHostname([label, label, label, 'a'.repeat(61)].join('.'))
+    ).toBe(true);
+  });
+});
+
+describe('ip validation', () => {
+  it('accepts IPv4 addresses only as version 4', () => {
+    fc.assert(
+      fc.property(fc.ipV4(), (ip) => {
+        expect(isValidIp(ip)).toBe(true);
+        expect(isValidIp(ip, 4)).toBe(true);
+        expect(isValidIp(ip, 6)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('accepts IPv6 addresses only as version 6', () => {
+    fc.assert(
+      fc.property(fc.ipV6(), (ip) => {
+        expect(isValidIp(ip)).toBe(true);
+        expect(isValidIp(ip, 6)).toBe(true);
+        expect(isValidIp(ip, 4)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects octets above 255 and leading zeros', () => {
+    fc.assert(
+      fc.property(
+        fc.ipV4(),
+        fc.integer({ min: 0, max: 3 }),
+        fc.oneof(
+          fc.integer({ min: 256, max: 999 }).map(String),
+          fc.integer({ min: 0, max: 99 }).map((n) => `0${n}`)
+        ),
+        (ip, index, octet) => {
+          const octets = ip.split('.');
+          octets[index] = octet;
+          expect(isValidIp(octets.join('.'))).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('accepts an embedded IPv4 address only as the final group', () => {
+    fc.assert(
+      fc.property(fc.ipV4(), (ip) => {
+        expect(isValidIp(`::ffff:${ip}`, 6)).toBe(true);
+        expect(isValidIp(`1:2:3:4:5:6:${ip}`, 6)).toBe(true);
+        expect(isValidIp(`${ip}::`)).toBe(false);
+        expect(isValidIp(`${ip}::1`)).toBe(false);
+        expect(isValidIp(`1:${ip}::2`)).toBe(false);
+        expect(parseCidr(`${ip}::/64`)).toBeNull();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it.each([
+    '::',
+    '::1',
+    'fd00::',
+    '2001:db8::8a2e:370:7334',
+    '::ffff:10.0.0.1',
+    '1:2:3:4:5:6:7:8',
+  ])('accepts %s', (ip) => {
+    expect(isValidIp(ip, 6)).toBe(true);
+  });
+
+  it.each([
+    '1::2::3',
+    '1:2:3:4:5:6:7',
+    '1:2:3:4:5:6:7:8:9',
+    '1:2:3:4::5:6:7:8',
+    '12345::',
+    'g::1',
+    '::ffff:10.0.0.256',
+    '1.2.3.4::',
+  ])('rejects %s', (ip) => {
+    expect(isValidIp(ip)).toBe(false);
+  });
+});
+
+describe('cidr parsing', () => {
+  it('clears host bits of IPv4 blocks', () => {
+    fc.assert(
+      fc.property(fc.ipV4(), fc.integer({ min: 0, max: 32 }), (ip, prefix) => {
+        const cidr = parseCidr(`${ip}/${prefix}`);
+        const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0;
+
+        expect(cidr?.prefixLength).toBe(prefix);
+        expect(cidr?.version).toBe(4);
+        expect(ipv4ToInt(cidr?.network ?? '')).toBe(
+          (ipv4ToInt(ip) & mask) >>> 0
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('contains its own network and original address', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(
+          fc.tuple(fc.ipV4(), fc.integer({ min: 0, max: 32 })),
+          fc.tuple(fc.ipV6(), fc.integer({ min: 0, max: 128 }))
+        ),
+        ([ip, prefix]) => {
+          const cidr = parseCidr(`${ip}/${prefix}`);
+
+          expect(cidr?.contains(ip)).toBe(true);
+          expect(cidr?.contains(cidr.network)).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('checks membership by prefix', () => {
+    const cidr = parseCidr('10.0.0.0/16');
+
+    expect(cidr?.contains('10.0.255.255')).toBe(true);
+    expect(cidr?.contains('10.1.0.0')).toBe(false);
+    expect(cidr?.contains('::1')).toBe(false);
+    expect(cidr?.contains('not-an-ip')).toBe(false);
+  });
+
+  it('formats IPv6 networks compressed', () => {
+    expect(parseCidr('2001:db8:0:0:1::/32')?.network).toBe('2001:db8::');
+    expect(parseCidr('fd00::1/8')?.network).toBe('fd00::');
+    expect(parseCidr('::/0')?.network).toBe('::');
+  });
+
+  it.each([
+    '10.0.0.0',
+    '10.0.0.0/33',
+    '10.0.0.0/08',
+    '10.0.0.0/',
+    '::/129',
+    'example.com/16',
+  ])('rejects %s', (value) => {
+    expect(parseCidr(value)).toBeNull();
+  });
+});
+
+describe('port validation', () => {
+  it('accepts ports from 1 to 65535', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 65535 }), (port) => {
+        expect(isValidPort(String(port))).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('rejects ports out of range', () => {
+    fc.assert(
+      fc.property(
+        fc.oneof(
+          fc.integer({ min: -65535, max: 0 }),
+          fc.integer({ min: 65536, max: 1_000_000 })
+        ),
+        (port) => {
+          expect(isValidPort(String(port))).toBe(false);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it.each(['', '080', '80.5', ' 80', '8e1', '0x50'])('rejects "%s"', (port) => {
+    expect(isValidPort(port)).toBe(false);
+  });
+});
@@ -1,20 +1,27 @@
 import * as fc from 'fast-check';
 import { describe, expect, it } from 'vitest';
 import {
+  coerceBigInt,
+  coerceBytes,
+  coerceDate,
+  coerceDecimal,
+  coerceDuration,
   coerceJson,
   coerceNumber,
-  coerceNumberArray,
   coerceString,
   coerceStringArray,
+  formatBytes,
+  formatDuration,
 } from '../../src//core/coercion';
+import { createEnv } from '../../src/core/create-env';
 
 describe('coercion property tests', () => {
   describe('number coercion correctness', () => {
-    it('converts valid numeric strings to the equivalent number', () => {
+    it('converts valid numeric strings to the equivalent number in loose mode', () => {
       fc.assert(
         fc.property(fc.double({ noNaN: true }), (num) => {
           const str = String(num);
-          const result = coerceNumber(str);
+          const result = coerceNumber(str, false);
 
           expect(result.success).toBe(true);
           if (result.success) {
@@ -40,6 +47,41 @@ describe('coercion property tests', () => {
       );
     });
 
+    it('converts plain decimal strings to the equivalent number', () => {
+      fc.assert(
+        fc.property(
+          fc.integer(),
+          fc.integer({ min: 0, max: 999_999 }),
+          (whole, fraction) => {
+            const str = `${whole}.${fraction}`;
+            expect(coerceNumber(str)).toEqual({
+              success: true,
+              value: Number(str),
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rejects strings Number() reads leniently in strict mode', () => {
+      fc.assert(
+        fc.property(
+          fc.oneof(
+            fc.constantFrom('', ' ', '\t', 'Infinity', '-Infinity', '+1', '.5'),
+            fc.integer().map((n) => ` ${n} `),
+            fc.nat().map((n) => `0x${n.toString(16)}`),
+            fc.nat().map((n) => `${n}e3`),
+            fc.nat().map((n) => `${n}.`)
+          ),
+          (str) => {
+            expect(coerceNumber(str).success).toBe(false);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
     it('returns error for non-numeric strings', () => {
       fc.assert(
         fc.property(
@@ -54,6 +96,120 @@ describe('coercion property tests', () => {
     });
   });
 
+  describe('bigint and decimal coercion', () => {
+    it('converts integer strings to the exact bigint', () => {
+      fc.assert(
+        fc.property(fc.bigInt(), (num) => {
+          expect(coerceBigInt(String(num))).toEqual({
+            success: true,
+            value: num,
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('keeps decimal strings unchanged', () => {
+      fc.assert(
+        fc.property(
+          fc.bigInt(),
+          fc.stringMatching(/^\d{1,20}$/),
+          (whole, fraction) => {
+            const str = `${whole}.${fraction}`;
+            expect(coerceDecimal(str)).toEqual({ success: true, value: str });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('date round-trip', () => {
+    const dateArb = fc.date({
+      min: new Date('0000-01-01T00:00:00Z'),
+      max: new Date('9999-12-31T23:59:59Z'),
+      noInvalidDate: true,
+    });
+
+    it('parses ISO strings back to the same time', () => {
+      fc.assert(
+        fc.property(dateArb, (date) => {
+          expect(coerceDate(date.toISOString())).toEqual({
+            success: true,
+            value: date,
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('parses epoch timestamps in either unit', () => {
+      fc.assert(
+        fc.property(dateArb, (date) => {
+          const ms = date.getTime();
+          const seconds = Math.floor(ms / 1000);
+
+          expect(coerceDate(String(ms))).toEqual({
+            success: true,
+            value: date,
+          });
+          expect(coerceDate(String(seconds), 's')).toEqual({
+            success: true,
+            value: new Date(seconds * 1000),
+          });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rejects days past the end of the month', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 1000, max: 9999 }),
+          fc.integer({ min: 1, max: 12 }),
+          (year, month) => {
+            const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+            const date = `${year}-${String(month).padStart(2, '0')}-${lastDay + 1}`;
+
+            expect(
+              coerceDate(`${year}-${String(month).padStart(2, '0')}-${lastDay}`)
+                .success
+            ).toBe(true);
+            expect(coerceDate(date).success).toBe(false);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('applies offsets in range and rejects the rest', () => {
+      const pad = (n: number) => String(n).padStart(2, '0');
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 0, max: 99 }),
+          fc.integer({ min: 0, max: 99 }),
+          fc.constantFrom('+', '-'),
+          (hours, minutes, sign) => {
+            const result = coerceDate(
+              `2024-06-15T12:00:00${sign}${pad(hours)}:${pad(minutes)}`
+            );
+
+            if (hours > 23 || minutes > 59) {
+              expect(result.success).toBe(false);
+            } else {
+              const offset = (sign === '-' ? -1 : 1) * (hours * 60 + minutes);
+              expect(result).toEqual({
+                success: true,
+                value: new Date(Date.UTC(2024, 5, 15, 12, -offset)),
+              });
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
   describe('string identity', () => {
     it('returns the input string unchanged', () => {
       fc.assert(
@@ -99,31 +255,39 @@ describe('coercion property tests', () => {
       );
     });
 
-    it('number array: join then split produces equivalent array', () => {
+    it('number array: join then split produces equivalent array in loose mode', () => {
       fc.assert(
         fc.property(
-          fc.array(fc.double({ noNaN: true, noDefaultInfinity: true })),
+          fc.array(fc.double({ noNaN: true, noDefaultInfinity: true }), {
+            minLength: 1,
+          }),
           (arr) => {
-            const joined = arr.join(',');
-            const result = coerceNumberArray(joined, ',');
+            const env = createEnv(
+              { LIST: { type: 'array', itemType: 'number', required: true } },
+              { env: { LIST: arr.join(',') }, strictNumbers: false }
+            );
 
-            expect(result.success).toBe(true);
-            if (result.success) {
-              if (arr.length === 0) {
-                expect(result.value).toEqual([]);
-              } else {
-                expect(result.value.length).toBe(arr.length);
-                for (let i = 0; i < arr.length; i++) {
-                  expect(result.value[i]).toBe(Number(String(arr[i])));
-                }
-              }
-            }
+            expect(env.LIST).toEqual(arr.map((n) => Number(String(n))));
           }
         ),
         { numRuns: 100 }
       );
     });
 
+    it('number array: join then split produces equivalent integer array', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer(), { minLength: 1 }), (arr) => {
+          const env = createEnv(
+            { LIST: { type: 'array', itemType: 'number', required: true } },
+            { env: { LIST: arr.join(',') } }
+          );
+
+          expect(env.LIST).toEqual(arr);
+        }),
+        { numRuns: 100 }
+      );
+    });
+
     it('trims whitespace from array items', () => {
       fc.assert(
         fc.property(
@@ -174,6 +338,77 @@ describe('coercion property tests', () => {
         { numRuns: 100 }
       );
     });
+    it('quoted items round-trip any string, including separators and quotes', () => {
+      fc.assert(
+        fc.property(
+          fc.array(fc.string(), { minLength: 1 }),
+          fc.boolean(),
+          (arr, trim) => {
+            const joined = arr
+              .map((s) => `"${s.split('"').join('""')}"`)
+              .join(',');
+
+            expect(
+              coerceStringArray(joined, ',', { quoted: true, trim })
+            ).toEqual({ success: true, value: arr });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('keeps whitespace when trim is false', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.string().filter((s) => !s.includes(',')),
+            {
+              minLength: 2,
+            }
+          ),
+          (arr) => {
+            expect(
+              coerceStringArray(arr.join(','), ',', { trim: false })
+            ).toEqual({ success: true, value: arr });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('skipEmpty drops exactly the empty items', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.string().filter((s) => !s.includes(',') && s.trim() === s)
+          ),
+          (arr) => {
+            const result = coerceStringArray(arr.join(','), ',', {
+              skipEmpty: true,
+            });
+
+            expect(result).toEqual({
+              success: true,
+              value: arr.filter((s) => s !== ''),
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it.each([
+      ['"a,b', 'Unterminated quote in item at index 0'],
+      [
+        'a,"b"c',
+        'Unexpected characters after closing quote in item at index 1',
+      ],
+    ])('rejects malformed quoting in %s', (value, error) => {
+      expect(coerceStringArray(value, ',', { quoted: true })).toEqual({
+        success: false,
+        error,
+      });
+    });
   });
 
   describe('JSON round-trip', () => {
@@ -245,4 +480,52 @@ describe('coercion property tests', () => {
       );
     });
   });
+
+  describe('duration round-trip', () => {
+    it('parses formatted durations back to the same milliseconds', () => {
+      fc.assert(
+        fc.property(fc.nat({ max: 10 * 86_400_000 }), (ms) => {
+          const result = coerceDuration(formatDuration(ms));
+
+          expect(result).toEqual({ success: true, value: ms });
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('treats each suffix as its unit', () => {
+      fc.assert(
+        fc.property(
+          fc.nat({ max: 10_000 }),
+          fc.constantFrom(
+            ['ms', 1],
+            ['s', 1000],
+            ['m', 60_000],
+            ['h', 3_600_000],
+            ['d', 86_400_000]
+          ),
+          (amount, [unit, size]) => {
+            expect(coerceDuration(`${amount}${unit}`)).toEqual({
+              success: true,
+              value: amount * size,
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('byte size round-trip', () => {
+    it('parses formatted byte sizes back to the same number of bytes', () => {
+      fc.assert(
+        fc.property(fc.nat({ max: 2 ** 40 }), (bytes) => {
+          const result = coerceBytes(formatBytes(bytes));
+
+          expect(result).toEqual({ success: true, value: bytes });
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
 });
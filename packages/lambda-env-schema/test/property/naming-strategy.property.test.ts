@@ -1,6 +1,7 @@
 import * as fc from 'fast-check';
 import { describe, expect, it } from 'vitest';
-import { createEnv, toCamelCase } from '../../src/core/create-env';
+import { createEnv } from '../../src/core/create-env';
+import { toCamelCase, toKebabCase, toPascalCase } from '../../src/core/naming';
 
 describe('naming strategy property tests', () => {
   describe('toCamelCase transformation', () => {
@@ -64,6 +65,34 @@ describe('naming strategy property tests', () => {
     });
   });
 
+  describe('word splitting', () => {
+    it('ignores leading, trailing and repeated underscores', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.tuple(
+              fc.stringMatching(/^[A-Z][A-Z0-9]*$/),
+              fc.integer({ min: 1, max: 3 })
+            ),
+            { minLength: 1, maxLength: 4 }
+          ),
+          fc.integer({ min: 0, max: 2 }),
+          (parts, leading) => {
+            const canonical = parts.map(([word]) => word).join('_');
+            const padded =
+              '_'.repeat(leading) +
+              parts.map(([word, gap]) => word + '_'.repeat(gap)).join('');
+
+            expect(toCamelCase(padded)).toBe(toCamelCase(canonical));
+            expect(toPascalCase(padded)).toBe(toPascalCase(canonical));
+            expect(toKebabCase(padded)).toBe(toKebabCase(canonical));
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
   describe('preserve strategy', () => {
     it('keeps original keys unchanged', () => {
       fc.assert(
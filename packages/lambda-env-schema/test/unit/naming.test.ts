@@ -0,0 +1,205 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { createEnv } from '../../src/core/create-env';
+import {
+  applyNamingStrategy,
+  defineNamingStrategy,
+  splitWords,
+  toCamelCase,
+  toKebabCase,
+  toPascalCase,
+} from '../../src/core/naming';
+import type {
+  InferEnv,
+  KeyMapper,
+  SnakeToCamel,
+  SnakeToKebab,
+  SnakeToPascal,
+} from '../../src/share/types';
+
+/**
+ * Inputs and expected outputs shared by the runtime and type-level checks.
+ */
+const NAMING_CASES = [
+  { key: 'PORT', camel: 'port', pascal: 'Port', kebab: 'port' },
+  { key: 'API_KEY', camel: 'apiKey', pascal: 'ApiKey', kebab: 'api-key' },
+  { key: 'API__KEY', camel: 'apiKey', pascal: 'ApiKey', kebab: 'api-key' },
+  {
+    key: 'V2_ENDPOINT',
+    camel: 'v2Endpoint',
+    pascal: 'V2Endpoint',
+    kebab: 'v2-endpoint',
+  },
+  {
+    key: 'HTTP_2_PORT',
+    camel: 'http2Port',
+    pascal: 'Http2Port',
+    kebab: 'http-2-port',
+  },
+  {
+    key: '_PRIVATE_TOKEN',
+    camel: 'privateToken',
+    pascal: 'PrivateToken',
+    kebab: 'private-token',
+  },
+  {
+    key: '__INTERNAL',
+    camel: 'internal',
+    pascal: 'Internal',
+    kebab: 'internal',
+  },
+  {
+    key: 'TRAILING_',
+    camel: 'trailing',
+    pascal: 'Trailing',
+    kebab: 'trailing',
+  },
+  {
+    key: 'MY_LONG_VAR_NAME',
+    camel: 'myLongVarName',
+    pascal: 'MyLongVarName',
+    kebab: 'my-long-var-name',
+  },
+  { key: 'db', camel: 'db', pascal: 'Db', kebab: 'db' },
+] as const;
+
+type NamingCase = (typeof NAMING_CASES)[number];
+
+type CaseSchema = {
+  [K in NamingCase['key']]: { type: 'string'; default: string };
+};
+
+const caseSchema = Object.fromEntries(
+  NAMING_CASES.map((c) => [c.key, { type: 'string', default: c.key }])
+) as CaseSchema;
+
+/**
+ * Keys whose type-level conversion differs from the expected output.
+ */
+type Mismatches<C extends NamingCase = NamingCase> = C extends NamingCase
+  ? SnakeToCamel<C['key']> extends C['camel']
+    ? SnakeToPascal<C['key']> extends C['pascal']
+      ? SnakeToKebab<C['key']> extends C['kebab']
+        ? never
+        : C['key']
+      : C['key']
+    : C['key']
+  : never;
+
+describe('naming strategies', () => {
+  describe('shared case matrix', () => {
+    it.each(NAMING_CASES)('converts $key at runtime', (c) => {
+      expect(toCamelCase(c.key)).toBe(c.camel);
+      expect(toPascalCase(c.key)).toBe(c.pascal);
+      expect(toKebabCase(c.key)).toBe(c.kebab);
+    });
+
+    it('converts every key identically at the type level', () => {
+      expectTypeOf<Mismatches>().toEqualTypeOf<never>();
+    });
+
+    it('produces the InferEnv keys at runtime', () => {
+      const strategies = [
+        ['camelCase', 'camel'],
+        ['PascalCase', 'pascal'],
+        ['kebab-case', 'kebab'],
+      ] as const;
+      // API__KEY maps to the same output key as API_KEY, which createEnv rejects
+      const { API__KEY: _duplicate, ...uniqueSchema } = caseSchema;
+
+      for (const [strategy, column] of strategies) {
+        const env = createEnv(uniqueSchema, {
+          env: {},
+          namingStrategy: strategy,
+        });
+        const { aws: _aws, ...values } = env;
+        const expected = Object.fromEntries(
+          NAMING_CASES.filter((c) => c.key !== 'API__KEY').map((c) => [
+            c[column],
+            c.key,
+          ])
+        );
+        expect(values).toEqual(expected);
+      }
+
+      expectTypeOf<keyof InferEnv<CaseSchema, 'camelCase'>>().toEqualTypeOf<
+        NamingCase['camel']
+      >();
+      expectTypeOf<keyof InferEnv<CaseSchema, 'PascalCase'>>().toEqualTypeOf<
+        NamingCase['pascal']
+      >();
+      expectTypeOf<keyof InferEnv<CaseSchema, 'kebab-case'>>().toEqualTypeOf<
+        NamingCase['kebab']
+      >();
+    });
+  });
+
+  describe('splitWords', () => {
+    it('drops empty words', () => {
+      expect(splitWords('_API__KEY_')).toEqual(['API', 'KEY']);
+      expect(splitWords('')).toEqual([]);
+    });
+  });
+
+  describe('stripPrefix strategy', () => {
+    it('removes the prefix and applies the case', () => {
+      const env = createEnv(
+        {
+          APP_PORT: { type: 'number', default: 3000 },
+          LOG_LEVEL: { type: 'string', default: 'info' },
+        },
+        {
+          env: {},
+          namingStrategy: { stripPrefix: 'APP_', case: 'camelCase' },
+        }
+      );
+
+      expect(env.port).toBe(3000);
+      expect(env.logLevel).toBe('info');
+      expectTypeOf(env.port).toEqualTypeOf<number>();
+      expectTypeOf(env.logLevel).toEqualTypeOf<string>();
+    });
+
+    it('preserves the case by default', () => {
+      expect(applyNamingStrategy('APP_API_KEY', { stripPrefix: 'APP_' })).toBe(
+        'API_KEY'
+      );
+
+      type Env = InferEnv<
+        { APP_API_KEY: { type: 'string'; required: true } },
+        { stripPrefix: 'APP_' }
+      >;
+      expectTypeOf<Env>().toEqualTypeOf<{ API_KEY: string }>();
+    });
+  });
+
+  describe('custom strategy', () => {
+    interface LowerMapper extends KeyMapper {
+      output: Lowercase<this['key']>;
+    }
+
+    it('uses the function at runtime and the mapper at the type level', () => {
+      const lower = defineNamingStrategy<LowerMapper>((key) =>
+        key.toLowerCase()
+      );
+      const env = createEnv(
+        { API_KEY: { type: 'string', default: 'secret' } },
+        { env: {}, namingStrategy: lower }
+      );
+
+      expect(env.api_key).toBe('secret');
+      expectTypeOf(env.api_key).toEqualTypeOf<string>();
+    });
+
+    it('applies to nested groups at every level', () => {
+      const lower = defineNamingStrategy<LowerMapper>((key) =>
+        key.toLowerCase()
+      );
+      const env = createEnv(
+        { DB: { HOST: { type: 'string', default: 'localhost' } } },
+        { env: {}, namingStrategy: lower }
+      );
+
+      expect(env.db.host).toBe('localhost');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { createEnv } from '../../src/core/create-env';
+import {
+  defineSchema,
+  mergeSchemas,
+  omitSchema,
+  pickSchema,
+} from '../../src/core/schema';
+import { SchemaConflictError } from '../../src/share/errors';
+
+const logging = defineSchema({
+  LOG_LEVEL: { type: 'string', enum: ['debug', 'info'], default: 'info' },
+  db: { HOST: { type: 'string', default: 'localhost' } },
+});
+
+const orders = defineSchema({
+  TABLE_NAME: { type: 'string', required: true },
+  db: { PORT: { type: 'number', default: 5432 } },
+});
+
+describe('defineSchema', () => {
+  it('returns the schema unchanged', () => {
+    const schema = { PORT: { type: 'number' as const } };
+    expect(defineSchema(schema)).toBe(schema);
+  });
+
+  it('keeps enum literals without as const', () => {
+    const env = createEnv(logging, { env: {} });
+
+    expect(env.LOG_LEVEL).toBe('info');
+    expectTypeOf(env.LOG_LEVEL).toEqualTypeOf<'debug' | 'info'>();
+  });
+});
+
+describe('mergeSchemas', () => {
+  it('merges schemas and nested groups', () => {
+    const schema = mergeSchemas(logging, orders);
+    const env = createEnv(schema, { env: { TABLE_NAME: 'orders' } });
+
+    expect(env).toMatchObject({
+      LOG_LEVEL: 'info',
+      TABLE_NAME: 'orders',
+      db: { HOST: 'localhost', PORT: 5432 },
+    });
+    expectTypeOf(env.LOG_LEVEL).toEqualTypeOf<'debug' | 'info'>();
+    expectTypeOf(env.db).toEqualTypeOf<{ HOST: string; PORT: number }>();
+  });
+
+  it('lets later schemas override keys of the same type', () => {
+    const schema = mergeSchemas(logging, {
+      LOG_LEVEL: { type: 'string', default: 'debug' },
+    });
+
+    expect(schema.LOG_LEVEL).toEqual({ type: 'string', default: 'debug' });
+  });
+
+  it('merges arrays whose item schemas share a type', () => {
+    const schema = mergeSchemas(
+      {
+        STAGES: {
+          type: 'array',
+          itemType: { type: 'string', enum: ['dev', 'prod'] },
+        },
+      },
+      {
+        STAGES: {
+          type: 'array',
+          itemType: { type: 'string', enum: ['dev', 'staging', 'prod'] },
+        },
+      },
+      { STAGES: { type: 'array', itemType: 'string' } }
+    );
+
+    expect(schema.STAGES).toEqual({ type: 'array', itemType: 'string' });
+  });
+
+  it('does not mutate its inputs', () => {
+    mergeSchemas(logging, orders);
+
+    expect(Object.keys(logging.db)).toEqual(['HOST']);
+  });
+
+  it('throws on conflicting types', () => {
+    expect(() =>
+      // @ts-expect-error - LOG_LEVEL is a string in logging
+      mergeSchemas(logging, { LOG_LEVEL: { type: 'number' } })
+    ).toThrow(new SchemaConflictError('LOG_LEVEL', 'string', 'number'));
+  });
+
+  it('throws on conflicting nested and array item types', () => {
+    try {
+      // @ts-expect-error - db.HOST is a string in logging
+      mergeSchemas(logging, { db: { HOST: { type: 'number' } } });
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaConflictError);
+      expect((e as SchemaConflictError).key).toBe('db.HOST');
+    }
+
+    expect(() =>
+      mergeSchemas(
+        // @ts-expect-error - IDS holds strings in the first schema
+        { IDS: { type: 'array', itemType: 'string' } },
+        { IDS: { type: 'array', itemType: 'number' } }
+      )
+    ).toThrow(
+      'Conflicting definitions for "IDS": array of string and array of number'
+    );
+  });
+
+  it('throws when a group and an item share a key', () => {
+    expect(() =>
+      // @ts-expect-error - db is a group in logging
+      mergeSchemas(logging, { db: { type: 'string' } })
+    ).toThrow('Conflicting definitions for "db": group and string');
+  });
+});
+
+describe('pickSchema', () => {
+  it('keeps only the given keys', () => {
+    const schema = pickSchema(mergeSchemas(logging, orders), ['TABLE_NAME']);
+
+    expect(Object.keys(schema)).toEqual(['TABLE_NAME']);
+    expectTypeOf(
+      createEnv(schema, { env: { TABLE_NAME: 'orders' } }).TABLE_NAME
+    ).toEqualTypeOf<string>();
+  });
+});
+
+describe('omitSchema', () => {
+  it('removes the given keys', () => {
+    const schema = omitSchema(logging, ['db']);
+    const env = createEnv(schema, { env: {} });
+
+    expect(Object.keys(schema)).toEqual(['LOG_LEVEL']);
+    expect(Object.keys(logging)).toEqual(['LOG_LEVEL', 'db']);
+    expectTypeOf(env).not.toHaveProperty('db');
+  });
+});
@@ -0,0 +1,334 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createEnv } from '../../src/core/create-env';
+import type {
+  AWSParsedType,
+  AWSValidationOnlyType,
+  EnvSchema,
+} from '../../src/index';
+import { createTestEnv, withEnv } from '../../src/testing';
+
+const schema = {
+  PORT: { type: 'number', required: true, min: 1024 },
+  STAGE: { type: 'string', enum: ['dev', 'prod'] as const, required: true },
+  DEBUG: { type: 'boolean', default: false },
+  FEATURES: { type: 'array', itemType: 'string', separator: ';' },
+  LIMITS: { type: 'json' },
+  QUEUE_URL: { type: 'sqs-queue-url', required: true },
+  db: { HOST: { type: 'string', required: true, minLength: 8 } },
+} as const;
+
+const AWS_TYPES: readonly (AWSValidationOnlyType | AWSParsedType)[] = [
+  'aws-region',
+  'aws-account-id',
+  's3-bucket-name',
+  'dynamodb-table-name',
+  'rds-cluster-id',
+  'lambda-function-name',
+  'event-bus-name',
+  'api-gateway-id',
+  'vpc-id',
+  'subnet-id',
+  'security-group-id',
+  'ec2-instance-id',
+  'cloudfront-dist-id',
+  'kms-key-id',
+  'ssm-parameter-name',
+  'iam-user-arn',
+  's3-arn',
+  's3-uri',
+  'sqs-queue-url',
+  'sqs-queue-arn',
+  'sns-topic-arn',
+  'dynamodb-table-arn',
+  'rds-endpoint',
+  'lambda-function-arn',
+  'kms-key-arn',
+  'secrets-manager-arn',
+  'iam-role-arn',
+  'arn',
+];
+
+describe('createTestEnv', () => {
+  it('fills required variables with valid placeholders', () => {
+    const raw = createTestEnv(schema);
+
+    expect(Object.keys(raw).sort()).toEqual([
+      'DB_HOST',
+      'PORT',
+      'QUEUE_URL',
+      'STAGE',
+    ]);
+    expect(raw.PORT).toBe('1024');
+    expect(raw.STAGE).toBe('dev');
+    expect(() => createEnv(schema, { env: raw })).not.toThrow();
+  });
+
+  it.each(AWS_TYPES)('has a valid placeholder for %s', (type) => {
+    const awsSchema = { VALUE: { type, required: true } } as EnvSchema;
+
+    expect(() =>
+      createEnv(awsSchema, { env: createTestEnv(awsSchema) })
+    ).not.toThrow();
+  });
+
+  it('serialises typed overrides to raw strings', () => {
+    const raw = createTestEnv(schema, {
+      PORT: 8080,
+      STAGE: 'prod',
+      DEBUG: true,
+      FEATURES: ['a', 'b'],
+      LIMITS: { max: 5 },
+      db: { HOST: 'db.internal' },
+    });
+
+    expect(raw).toMatchObject({
+      PORT: '8080',
+      STAGE: 'prod',
+      DEBUG: 'true',
+      FEATURES: 'a;b',
+      LIMITS: '{"max":5}',
+      DB_HOST: 'db.internal',
+    });
+
+    const env = createEnv(schema, { env: raw });
+    expect(env.FEATURES).toEqual(['a', 'b']);
+    expect(env.LIMITS).toEqual({ max: 5 });
+  });
+
+  it('accepts parsed values or raw strings for parsed types', () => {
+    const url = 'https://sqs.eu-west-1.amazonaws.com/123456789012/orders';
+    const parsed = createEnv(schema, {
+      env: createTestEnv(schema, { QUEUE_URL: url }),
+    }).QUEUE_URL;
+
+    expect(createTestEnv(schema, { QUEUE_URL: parsed }).QUEUE_URL).toBe(url);
+  });
+
+  it('builds placeholder URLs that satisfy protocols and hosts', () => {
+    const urlSchema = {
+      API_BASE: {
+        type: 'url',
+        required: true,
+        protocols: ['wss'],
+        allowedHosts: ['*.example.com'],
+        requirePath: true,
+      },
+    } as const;
+
+    const raw = createTestEnv(urlSchema);
+
+    expect(raw.API_BASE).toBe('wss://test.example.com/test');
+    expect(() => createEnv(urlSchema, { env: raw })).not.toThrow();
+  });
+
+  it('builds placeholder numbers that satisfy number constraints', () => {
+    const numberSchema = {
+      RATE: { type: 'number', required: true, exclusiveMax: 1 },
+      RETRIES: { type: 'number', required: true, exclusiveMin: 0 },
+      BATCH: { type: 'number', required: true, min: 3, multipleOf: 5 },
+      WEIGHT: { type: 'number', required: true, positive: true },
+    } as const;
+
+    const raw = createTestEnv(numberSchema);
+
+    expect(raw).toEqual({ RATE: '0', RETRIES: '1', BATCH: '5', WEIGHT: '1' });
+    expect(() => createEnv(numberSchema, { env: raw })).not.toThrow();
+  });
+
+  it('uses the first enum value for numbers and booleans', () => {
+    const enumSchema = {
+      API_VERSION: { type: 'number', required: true, enum: [2, 3] },
+      DEBUG: { type: 'boolean', required: true, enum: [true] },
+    } as const;
+
+    expect(createTestEnv(enumSchema)).toEqual({
+      API_VERSION: '2',
+      DEBUG: 'true',
+    });
+    // @ts-expect-error - API_VERSION is 2 | 3
+    createTestEnv(enumSchema, { API_VERSION: 4 });
+  });
+
+  it('serialises bigint and decimal values', () => {
+    const numericSchema = {
+      COUNTER: { type: 'bigint', required: true, min: 5n },
+      PRICE: { type: 'decimal', required: true, scale: 2 },
+    } as const;
+
+    expect(createTestEnv(numericSchema)).toEqual({ COUNTER: '5', PRICE: '0' });
+    expect(
+      createTestEnv(numericSchema, {
+        COUNTER: 9007199254740993n,
+        PRICE: '19.99',
+      })
+    ).toEqual({ COUNTER: '9007199254740993', PRICE: '19.99' });
+  });
+
+  it('builds placeholder dates within after and before bounds', () => {
+    const dateSchema = {
+      LAUNCH_DATE: { type: 'date', required: true },
+      CERT_EXPIRY: { type: 'date', required: true, after: 'now+30d' },
+      WINDOW: {
+        type: 'date',
+        required: true,
+        after: '2025-01-01',
+        before: '2025-01-03',
+      },
+    } as const;
+
+    const raw = createTestEnv(dateSchema);
+
+    expect(raw.LAUNCH_DATE).toBe('2000-01-01T00:00:00.000Z');
+    expect(raw.WINDOW).toBe('2025-01-02T00:00:00.000Z');
+    expect(() => createEnv(dateSchema, { env: raw })).not.toThrow();
+    expect(
+      createTestEnv(dateSchema, { LAUNCH_DATE: new Date(0) }).LAUNCH_DATE
+    ).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('has valid placeholders for network types', () => {
+    const networkSchema = {
+      HOST: { type: 'hostname', required: true },
+      PROXY_IP: { type: 'ip', version: 6, required: true },
+      VPC_CIDR: { type: 'cidr', required: true },
+      PORT: { type: 'port', required: true },
+      ALLOWED_CIDRS: { type: 'array', itemType: 'cidr', required: true },
+    } as const;
+
+    const raw = createTestEnv(networkSchema);
+
+    expect(raw.PROXY_IP).toBe('fd00::1');
+    expect(raw.ALLOWED_CIDRS).toBe('10.0.0.0/16');
+    expect(() => createEnv(networkSchema, { env: raw })).not.toThrow();
+
+    const env = createEnv(networkSchema, { env: raw });
+    expect(
+      createTestEnv(networkSchema, {
+        VPC_CIDR: env.VPC_CIDR,
+        ALLOWED_CIDRS: [env.VPC_CIDR, env.VPC_CIDR],
+        PORT: 5432,
+      })
+    ).toMatchObject({
+      VPC_CIDR: '10.0.0.0/16',
+      ALLOWED_CIDRS: '10.0.0.0/16,10.0.0.0/16',
+      PORT: '5432',
+    });
+  });
+
+  it('builds placeholder arrays from item schemas', () => {
+    const arraySchema = {
+      QUEUE_ARNS: {
+        type: 'array',
+        itemType: { type: 'sqs-queue-arn' },
+        required: true,
+        minLength: 2,
+      },
+      STAGES: {
+        type: 'array',
+        itemType: { type: 'string', enum: ['dev', 'prod'] as const },
+        required: true,
+      },
+    } as const;
+
+    const raw = createTestEnv(arraySchema);
+
+    expect(raw.STAGES).toBe('dev');
+    expect(() => createEnv(arraySchema, { env: raw })).not.toThrow();
+
+    const env = createEnv(arraySchema, { env: raw });
+    expect(
+      createTestEnv(arraySchema, {
+        QUEUE_ARNS: [env.QUEUE_ARNS[0]],
+        STAGES: ['prod', 'dev'],
+      })
+    ).toEqual({ QUEUE_ARNS: env.QUEUE_ARNS[0].value, STAGES: 'prod,dev' });
+  });
+
+  it('serialises sets and quotes items of quoted arrays', () => {
+    const listSchema = {
+      ORIGINS: { type: 'array', itemType: 'string', output: 'set' },
+      LABELS: { type: 'array', itemType: 'string', quoted: true },
+    } as const;
+
+    const raw = createTestEnv(listSchema, {
+      ORIGINS: new Set(['https://a.com', 'https://b.com']),
+      LABELS: ['Smith, John', 'say "hi"', 'plain'],
+    });
+
+    expect(raw).toEqual({
+      ORIGINS: 'https://a.com,https://b.com',
+      LABELS: '"Smith, John","say ""hi""",plain',
+    });
+    expect(createEnv(listSchema, { env: raw }).LABELS).toEqual([
+      'Smith, John',
+      'say "hi"',
+      'plain',
+    ]);
+  });
+
+  it('leaves variables overridden with undefined unset', () => {
+    const raw = createTestEnv(schema, { PORT: undefined });
+
+    expect('PORT' in raw).toBe(false);
+  });
+
+  it('uses prefix and joiner for variable names', () => {
+    const raw = createTestEnv(
+      schema,
+      { db: { HOST: 'db.internal' } },
+      { prefix: 'APP_', joiner: '__' }
+    );
+
+    expect(raw.APP_DB__HOST).toBe('db.internal');
+    expect(raw.APP_PORT).toBe('1024');
+  });
+
+  it('rejects overrides of the wrong type', () => {
+    // @ts-expect-error - PORT is a number
+    createTestEnv(schema, { PORT: '8080' });
+    // @ts-expect-error - STAGE is 'dev' | 'prod'
+    createTestEnv(schema, { STAGE: 'staging' });
+    // @ts-expect-error - UNKNOWN is not in the schema
+    createTestEnv(schema, { UNKNOWN: 'value' });
+  });
+});
+
+describe('withEnv', () => {
+  afterEach(() => {
+    delete process.env.WITH_ENV_TEST;
+  });
+
+  it('overrides process.env for the duration of the function', () => {
+    process.env.WITH_ENV_TEST = 'before';
+
+    const seen = withEnv({ WITH_ENV_TEST: 'during' }, () => {
+      return process.env.WITH_ENV_TEST;
+    });
+
+    expect(seen).toBe('during');
+    expect(process.env.WITH_ENV_TEST).toBe('before');
+  });
+
+  it('unsets variables and restores them after a throw', () => {
+    process.env.WITH_ENV_TEST = 'before';
+
+    expect(() =>
+      withEnv({ WITH_ENV_TEST: undefined }, () => {
+        expect('WITH_ENV_TEST' in process.env).toBe(false);
+        throw new Error('boom');
+      })
+    ).toThrow('boom');
+    expect(process.env.WITH_ENV_TEST).toBe('before');
+  });
+
+  it('restores variables once a promise settles', async () => {
+    const pending = withEnv({ WITH_ENV_TEST: 'during' }, async () => {
+      await Promise.resolve();
+      return process.env.WITH_ENV_TEST;
+    });
+
+    expect(process.env.WITH_ENV_TEST).toBe('during');
+    await expect(pending).resolves.toBe('during');
+    expect('WITH_ENV_TEST' in process.env).toBe(false);
+  });
+});
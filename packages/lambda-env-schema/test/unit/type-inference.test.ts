@@ -1,6 +1,7 @@
 import { describe, expectTypeOf, it } from 'vitest';
 import type {
   ParsedArn,
+  ParsedCidr,
   ParsedDynamoDBTableArn,
   ParsedIAMRoleArn,
   ParsedKMSKeyArn,
@@ -12,12 +13,17 @@ import type {
   ParsedSNSTopicArn,
   ParsedSQSQueueArn,
   ParsedSQSQueueUrl,
+  ParsedUrl,
 } from '../../src/aws/parsed-types';
-import { createEnv } from '../../src/core/create-env';
+import { createEnv, safeCreateEnv } from '../../src/core/create-env';
+import type { ValidationError } from '../../src/share/errors';
 import type {
+  ArrayItemSchema,
   InferEnv,
   InferValue,
+  NumberSchema,
   ParsedValueMap,
+  SchemaKey,
 } from '../../src/share/types';
 
 describe('type inference', () => {
@@ -54,6 +60,135 @@ describe('type inference', () => {
       }>;
       expectTypeOf<Result>().toEqualTypeOf<'dev' | 'prod'>();
     });
+
+    it('infers enum number and boolean types', () => {
+      type Version = InferValue<{ type: 'number'; enum: readonly [1, 2] }>;
+      type Flag = InferValue<{ type: 'boolean'; enum: readonly [false] }>;
+      expectTypeOf<Version>().toEqualTypeOf<1 | 2>();
+      expectTypeOf<Flag>().toEqualTypeOf<false>();
+      expectTypeOf<InferValue<NumberSchema<4 | 8>>>().toEqualTypeOf<4 | 8>();
+    });
+
+    it('does not narrow numbers to a literal default', () => {
+      const env = createEnv(
+        {
+          SHARD_COUNT: {
+            type: 'number',
+            enum: [4, 8, 16] as const,
+            default: 8,
+          },
+          PORT: { type: 'number', default: 3000 },
+        },
+        { env: {} }
+      );
+
+      expectTypeOf(env.SHARD_COUNT).toEqualTypeOf<4 | 8 | 16>();
+      expectTypeOf(env.PORT).toEqualTypeOf<number>();
+    });
+
+    it('infers bigint type', () => {
+      type Result = InferValue<{ type: 'bigint'; min: 0n }>;
+      expectTypeOf<Result>().toEqualTypeOf<bigint>();
+    });
+
+    it('infers decimal as its exact string', () => {
+      type Result = InferValue<{ type: 'decimal'; scale: 2 }>;
+      expectTypeOf<Result>().toEqualTypeOf<string>();
+    });
+
+    it('infers duration as milliseconds', () => {
+      type Result = InferValue<{ type: 'duration'; min: '1s' }>;
+      expectTypeOf<Result>().toEqualTypeOf<number>();
+    });
+
+    it('infers bytes as a number of bytes', () => {
+      type Result = InferValue<{ type: 'bytes'; max: '6MB' }>;
+      expectTypeOf<Result>().toEqualTypeOf<number>();
+    });
+
+    it('infers ParsedUrl for url', () => {
+      type Result = InferValue<{ type: 'url'; protocols: ['https'] }>;
+      expectTypeOf<Result>().toEqualTypeOf<ParsedUrl>();
+    });
+
+    it('infers Date for date', () => {
+      type Result = InferValue<{ type: 'date'; after: 'now' }>;
+      expectTypeOf<Result>().toEqualTypeOf<Date>();
+    });
+
+    it('infers network types', () => {
+      expectTypeOf<InferValue<{ type: 'hostname' }>>().toEqualTypeOf<string>();
+      expectTypeOf<
+        InferValue<{ type: 'ip'; version: 4 }>
+      >().toEqualTypeOf<string>();
+      expectTypeOf<InferValue<{ type: 'cidr' }>>().toEqualTypeOf<ParsedCidr>();
+      expectTypeOf<InferValue<{ type: 'port' }>>().toEqualTypeOf<number>();
+    });
+
+    it('infers arrays of network types', () => {
+      type Cidrs = InferValue<{ type: 'array'; itemType: 'cidr' }>;
+      type Ports = InferValue<{ type: 'array'; itemType: 'port' }>;
+      expectTypeOf<Cidrs>().toEqualTypeOf<ParsedCidr[]>();
+      expectTypeOf<Ports>().toEqualTypeOf<number[]>();
+    });
+
+    it('infers arrays of item schemas', () => {
+      type Queues = InferValue<{
+        type: 'array';
+        itemType: { type: 'sqs-queue-arn' };
+      }>;
+      type Stages = InferValue<{
+        type: 'array';
+        itemType: { type: 'string'; enum: readonly ['a', 'b'] };
+      }>;
+      type Flags = InferValue<{ type: 'array'; itemType: { type: 'boolean' } }>;
+      type Subnets = InferValue<{
+        type: 'array';
+        itemType: { type: 'subnet-id' };
+      }>;
+      expectTypeOf<Queues>().toEqualTypeOf<ParsedSQSQueueArn[]>();
+      expectTypeOf<Stages>().toEqualTypeOf<('a' | 'b')[]>();
+      expectTypeOf<Flags>().toEqualTypeOf<boolean[]>();
+      expectTypeOf<Subnets>().toEqualTypeOf<string[]>();
+    });
+
+    it('rejects variable-only options on item schemas', () => {
+      // @ts-expect-error - required only applies to the whole variable
+      const required: ArrayItemSchema = { type: 'port', required: true };
+      // @ts-expect-error - default only applies to the whole variable
+      const withDefault: ArrayItemSchema = { type: 'string', default: 'a' };
+      // @ts-expect-error - aliases only apply to the whole variable
+      const aliased: ArrayItemSchema = { type: 'string', aliases: ['A'] };
+
+      expectTypeOf(required).not.toBeAny();
+      expectTypeOf(withDefault).not.toBeAny();
+      expectTypeOf(aliased).not.toBeAny();
+      createEnv(
+        {
+          PORTS: {
+            type: 'array',
+            // @ts-expect-error - envName only applies to the whole variable
+            itemType: { type: 'port', envName: 'PORT' },
+          },
+        },
+        { env: {} }
+      );
+    });
+
+    it('infers a ReadonlySet with output: set', () => {
+      type Origins = InferValue<{
+        type: 'array';
+        itemType: 'string';
+        output: 'set';
+      }>;
+      type Queues = InferValue<{
+        type: 'array';
+        itemType: { type: 'sqs-queue-arn' };
+        output: 'set';
+      }>;
+      expectTypeOf<Origins>().toEqualTypeOf<ReadonlySet<string>>();
+      expectTypeOf<Queues>().toEqualTypeOf<ReadonlySet<ParsedSQSQueueArn>>();
+    });
   });
 
   describe('InferValue for AWS validation-only types', () => {
@@ -389,4 +524,264 @@ describe('type inference', () => {
       expectTypeOf(env.queueUrl).toEqualTypeOf<ParsedSQSQueueUrl>();
     });
   });
+
+  describe('transform type inference', () => {
+    it('infers the transform return type', () => {
+      type Result = InferValue<{
+        type: 'number';
+        transform: (value: number) => Date;
+      }>;
+      expectTypeOf<Result>().toEqualTypeOf<Date>();
+    });
+
+    it('infers transformed types through createEnv', () => {
+      const env = createEnv(
+        {
+          TIMEOUT: { type: 'number', default: 30, transform: (v) => v * 1000 },
+          ORIGINS: {
+            type: 'array',
+            itemType: 'string',
+            required: true,
+            transform: (v) => new Set(v),
+          },
+          QUEUE_URL: {
+            type: 'sqs-queue-url',
+            transform: (v) => v.queueName,
+          },
+        },
+        {
+          env: {
+            ORIGINS: 'a',
+            QUEUE_URL: 'https://sqs.us-east-1.amazonaws.com/123456789012/q',
+          },
+        }
+      );
+
+      expectTypeOf(env.TIMEOUT).toEqualTypeOf<number>();
+      expectTypeOf(env.ORIGINS).toEqualTypeOf<Set<string>>();
+      expectTypeOf(env.QUEUE_URL).toEqualTypeOf<string | undefined>();
+    });
+
+    it('keeps enum literal types when validate is defined', () => {
+      const env = createEnv(
+        {
+          STAGE: {
+            type: 'string',
+            enum: ['dev', 'prod'] as const,
+            required: true,
+            validate: (v) => v.length > 0 || 'Must not be empty',
+          },
+        },
+        { env: { STAGE: 'dev' } }
+      );
+
+      expectTypeOf(env.STAGE).toEqualTypeOf<'dev' | 'prod'>();
+    });
+  });
+
+  describe('conditional required type inference', () => {
+    it('keeps conditionally required variables optional', () => {
+      const env = createEnv(
+        {
+          DB_PASSWORD: {
+            type: 'string',
+            requiredWhen: { key: 'DB_AUTH_MODE', equals: 'password' },
+          },
+        },
+        { env: {} }
+      );
+
+      expectTypeOf(env.DB_PASSWORD).toEqualTypeOf<string | undefined>();
+    });
+  });
+
+  describe('prefix type inference', () => {
+    it('keys the result by schema key', () => {
+      const env = createEnv(
+        {
+          TABLE_NAME: { type: 'string', required: true },
+          PORT: { type: 'number', envName: 'HTTP_PORT', default: 80 },
+        },
+        {
+          env: { ORDERS_TABLE_NAME: 'orders' },
+          prefix: 'ORDERS_',
+          namingStrategy: 'camelCase',
+        }
+      );
+
+      expectTypeOf(env.tableName).toEqualTypeOf<string>();
+      expectTypeOf(env.port).toEqualTypeOf<number>();
+    });
+  });
+
+  describe('lazy mode type inference', () => {
+    it('adds $validateAll only in lazy mode', () => {
+      const lazyEnv = createEnv(
+        { PORT: { type: 'number', default: 3000 } },
+        { env: {}, mode: 'lazy' }
+      );
+      const eagerEnv = createEnv(
+        { PORT: { type: 'number', default: 3000 } },
+        { env: {} }
+      );
+
+      expectTypeOf(lazyEnv.PORT).toEqualTypeOf<number>();
+      expectTypeOf(lazyEnv.$validateAll).toEqualTypeOf<() => void>();
+      expectTypeOf(eagerEnv).not.toHaveProperty('$validateAll');
+    });
+  });
+
+  describe('refine type inference', () => {
+    it('passes the typed env to refine', () => {
+      createEnv(
+        {
+          CACHE_TTL: { type: 'number', required: true },
+          SESSION_TTL: { type: 'number', default: 3600 },
+        },
+        {
+          env: { CACHE_TTL: '60' },
+          namingStrategy: 'camelCase',
+          refine: (env) => {
+            expectTypeOf(env.cacheTtl).toEqualTypeOf<number>();
+            expectTypeOf(env.sessionTtl).toEqualTypeOf<number>();
+            return [];
+          },
+        }
+      );
+    });
+
+    it('restricts refine issue keys to schema keys', () => {
+      safeCreateEnv(
+        { CACHE_TTL: { type: 'number', required: true } },
+        {
+          env: { CACHE_TTL: '60' },
+          // @ts-expect-error - UNKNOWN is not a schema key
+          refine: () => [{ key: 'UNKNOWN', message: 'Invalid' }],
+        }
+      );
+    });
+  });
+
+  describe('nested group type inference', () => {
+    it('infers nested objects with the naming strategy at every level', () => {
+      const env = createEnv(
+        {
+          READ_REPLICA: {
+            HOST: { type: 'string', required: true },
+            PORT: { type: 'number' },
+          },
+        },
+        { env: { READ_REPLICA_HOST: 'replica' }, namingStrategy: 'camelCase' }
+      );
+
+      expectTypeOf(env.readReplica).toEqualTypeOf<{
+        host: string;
+        port: number | undefined;
+      }>();
+    });
+
+    it('infers nested groups from InferEnv', () => {
+      type Env = InferEnv<{
+        db: {
+          primary: { HOST: { type: 'string'; required: true } };
+          TLS: { type: 'boolean'; default: true };
+        };
+      }>;
+
+      expectTypeOf<Env>().toEqualTypeOf<{
+        db: { primary: { HOST: string }; TLS: boolean };
+      }>();
+    });
+
+    it('lists nested keys as dot-separated paths', () => {
+      type Keys = SchemaKey<{
+        PORT: { type: 'number' };
+        db: { HOST: { type: 'string' }; pool: { MAX: { type: 'number' } } };
+      }>;
+
+      expectTypeOf<Keys>().toEqualTypeOf<'PORT' | 'db.HOST' | 'db.pool.MAX'>();
+    });
+
+    it('restricts refine issue keys to nested paths', () => {
+      safeCreateEnv(
+        { db: { HOST: { type: 'string', required: true } } },
+        {
+          env: { DB_HOST: 'localhost' },
+          // @ts-expect-error - HOST is nested under db
+          refine: () => [{ key: 'HOST', message: 'Invalid' }],
+        }
+      );
+    });
+  });
+
+  describe('sources type inference', () => {
+    it('adds $meta keyed by schema key only with sources', () => {
+      const schema = {
+        PORT: { type: 'number', default: 3000 },
+        db: { HOST: { type: 'string', default: 'localhost' } },
+      } as const;
+      const withSources = createEnv(schema, {
+        sources: [{ name: 'process.env', values: {} }],
+        namingStrategy: 'camelCase',
+      });
+      const withoutSources = createEnv(schema, { env: {} });
+
+      expectTypeOf(withSources.$meta.source).toEqualTypeOf<{
+        readonly PORT?: string;
+        readonly 'db.HOST'?: string;
+      }>();
+      expectTypeOf(withoutSources).not.toHaveProperty('$meta');
+    });
+  });
+
+  describe('reloadable type inference', () => {
+    it('types the reload diff by output key', () => {
+      const env = createEnv(
+        {
+          PORT: { type: 'number', default: 3000 },
+          MODE: { type: 'string', enum: ['a', 'b'] as const, default: 'a' },
+        },
+        { env: {}, reloadable: true, namingStrategy: 'camelCase' }
+      );
+
+      for (const change of env.$reload()) {
+        if (change.key === 'port') {
+          expectTypeOf(change.current).toEqualTypeOf<number>();
+        }
+        if (change.key === 'mode') {
+          expectTypeOf(change.previous).toEqualTypeOf<'a' | 'b'>();
+        }
+      }
+    });
+
+    it('adds reload methods only when reloadable', () => {
+      const env = createEnv(
+        { PORT: { type: 'number', default: 3000 } },
+        { env: {} }
+      );
+
+      expectTypeOf(env).not.toHaveProperty('$reload');
+      expectTypeOf(env).not.toHaveProperty('$onChange');
+    });
+  });
+
+  describe('safeCreateEnv type inference', () => {
+    it('narrows data and partial by success flag', () => {
+      const result = safeCreateEnv(
+        {
+          PORT: { type: 'number', default: 3000 },
+          MY_VAR: { type: 'string' },
+        } as const,
+        { env: {}, namingStrategy: 'camelCase' }
+      );
+
+      if (result.success) {
+        expectTypeOf(result.data.port).toEqualTypeOf<number>();
+        expectTypeOf(result.data.myVar).toEqualTypeOf<string | undefined>();
+      } else {
+        expectTypeOf(result.errors).toEqualTypeOf<ValidationError[]>();
+        expectTypeOf(result.partial.port).toEqualTypeOf<number | undefined>();
+      }
+    });
+  });
 });